@@ -0,0 +1,285 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTNode as Node} from 'parse5';
+
+import {ancestors, queryAll} from './iteration';
+import {append, cloneNode, remove, replace} from './modification';
+import {isElement, Predicate} from './predicates';
+import {compileSelector} from './selector';
+import {defaultChildNodes, getAttribute, GetChildNodes, GetParentNode, getTextContent, setAttribute, setTextContent, trackParentNodes} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * A CSS selector (see `compileSelector`) or a predicate.
+ */
+export type Matcher = string | Predicate;
+
+/**
+ * A node to insert, or a function that makes one for each node in a
+ * collection.
+ */
+export type NodeOrFactory = Node | ((target: Node) => Node);
+
+/**
+ * Wraps `nodes` in a `NodeCollection`, for chains of queries and changes
+ * like:
+ *
+ *     $(doc).find('dom-module').children().filter('template').remove();
+ *
+ * `nodes` can be a node or any iterable of nodes, like the result of
+ * `queryAll`; iterables are read straight away. Descendants are found with
+ * `getChildNodes`.
+ *
+ * Parents, as used by `parent`, `closest` and selectors, follow the path that
+ * the collection's own queries took down the tree (see `trackParentNodes`).
+ * So with `childNodesIncludeTemplate`, the children of a `<template>`'s
+ * content found with `find` lead back to the `<template>`.
+ */
+export function $(
+    nodes: Node|Iterable<Node>,
+    getChildNodes: GetChildNodes = defaultChildNodes): NodeCollection {
+  const array = isIterable(nodes) ? Array.from(nodes) : [nodes];
+  const [trackedChildNodes, getParentNode] = trackParentNodes(getChildNodes);
+  return new NodeCollection(() => array, trackedChildNodes, getParentNode);
+}
+
+/**
+ * A collection of plain parse5 nodes, made with `$`.
+ *
+ * Methods that find other nodes, like `find` and `parent`, are lazy: they
+ * return a new collection whose nodes are found each time it is iterated, so
+ * they follow changes to the tree. Use `toArray` to keep the nodes found.
+ * Methods that change the tree act on the nodes in the collection at the
+ * time they are called, and return the collection.
+ */
+export class NodeCollection implements Iterable<Node> {
+  constructor(
+      private readonly nodes: () => Iterable<Node>,
+      private readonly getChildNodes: GetChildNodes,
+      private readonly getParentNode: GetParentNode) {
+  }
+
+  toArray(): Node[] {
+    return Array.from(this);
+  }
+
+  [Symbol.iterator](): Iterator<Node> {
+    return this.nodes()[Symbol.iterator]();
+  }
+
+  /**
+   * The descendants of the nodes in the collection that match `matcher`.
+   *
+   * With a selector, combinators can look at ancestors outside the
+   * collection, as with `querySelectorAll`.
+   */
+  find(matcher: Matcher): NodeCollection {
+    return this.derive(function*(nodes, getChildNodes, getParentNode) {
+      const predicate = toPredicate(matcher, getParentNode);
+      for (const node of nodes) {
+        for (const match of queryAll(node, predicate, getChildNodes)) {
+          if (match !== node) {
+            yield match;
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * The nodes in the collection that match `matcher`.
+   */
+  filter(matcher: Matcher): NodeCollection {
+    return this.derive(function*(nodes, _getChildNodes, getParentNode) {
+      const predicate = toPredicate(matcher, getParentNode);
+      for (const node of nodes) {
+        if (predicate(node)) {
+          yield node;
+        }
+      }
+    });
+  }
+
+  /**
+   * For each node in the collection, the node itself or its nearest ancestor
+   * that matches `matcher`, if any.
+   *
+   * Equivalent to `element.closest(selector)` in the browser.
+   */
+  closest(matcher: Matcher): NodeCollection {
+    return this.derive(function*(nodes, _getChildNodes, getParentNode) {
+      const predicate = toPredicate(matcher, getParentNode);
+      for (const node of nodes) {
+        for (const ancestor of ancestors(node, getParentNode)) {
+          if (predicate(ancestor)) {
+            yield ancestor;
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * The parents of the nodes in the collection.
+   */
+  parent(): NodeCollection {
+    return this.derive(function*(nodes, _getChildNodes, getParentNode) {
+      for (const node of nodes) {
+        const parent = getParentNode(node);
+        if (parent !== undefined) {
+          yield parent;
+        }
+      }
+    });
+  }
+
+  /**
+   * The child elements of the nodes in the collection.
+   */
+  children(): NodeCollection {
+    return this.derive(function*(nodes, getChildNodes) {
+      for (const node of nodes) {
+        yield* (getChildNodes(node) || []).filter(isElement);
+      }
+    });
+  }
+
+  /**
+   * The first node in the collection, if any.
+   */
+  first(): NodeCollection {
+    return this.derive(function*(nodes) {
+      for (const node of nodes) {
+        yield node;
+        return;
+      }
+    });
+  }
+
+  /**
+   * Returns the value of the attribute `name` of the first element in the
+   * collection, or `null`.
+   */
+  attr(name: string): string|null;
+  /**
+   * Sets the attribute `name` to `value` on each element in the collection.
+   */
+  attr(name: string, value: string): this;
+  attr(name: string, value?: string): string|null|this {
+    if (value === undefined) {
+      for (const node of this) {
+        if (isElement(node)) {
+          return getAttribute(node, name);
+        }
+      }
+      return null;
+    }
+    for (const node of this.toArray()) {
+      if (isElement(node)) {
+        setAttribute(node, name, value);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Returns the text content of the nodes in the collection, joined.
+   */
+  text(): string;
+  /**
+   * Sets the text content of each node in the collection to `value`.
+   */
+  text(value: string): this;
+  text(value?: string): string|this {
+    if (value === undefined) {
+      return this.toArray().map(getTextContent).join('');
+    }
+    for (const node of this.toArray()) {
+      setTextContent(node, value);
+    }
+    return this;
+  }
+
+  /**
+   * Removes the nodes in the collection from their parents.
+   */
+  remove(): this {
+    this.toArray().forEach(remove);
+    return this;
+  }
+
+  /**
+   * Replaces each node in the collection with `replacement`, or with the node
+   * that `replacement` returns for it. A single replacement node is cloned for
+   * every node after the first.
+   */
+  replaceWith(replacement: NodeOrFactory): this {
+    this.toArray().forEach((node, i) => {
+      if (node.parentNode !== undefined) {
+        replace(node, make(replacement, node, i));
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Appends `child`, or the node that `child` returns, to each node in the
+   * collection. A single child node is cloned for every node after the first.
+   */
+  append(child: NodeOrFactory): this {
+    this.toArray().forEach((node, i) => append(node, make(child, node, i)));
+    return this;
+  }
+
+  private derive(
+      generate:
+          (nodes: Iterable<Node>,
+           getChildNodes: GetChildNodes,
+           getParentNode: GetParentNode) => Iterable<Node>): NodeCollection {
+    return new NodeCollection(
+        () => unique(generate(this, this.getChildNodes, this.getParentNode)),
+        this.getChildNodes,
+        this.getParentNode);
+  }
+}
+
+function isIterable(nodes: Node|Iterable<Node>): nodes is Iterable<Node> {
+  return Symbol.iterator in nodes;
+}
+
+function toPredicate(
+    matcher: Matcher, getParentNode: GetParentNode): Predicate {
+  return typeof matcher === 'string' ? compileSelector(matcher, getParentNode) :
+                                       matcher;
+}
+
+function make(nodeOrFactory: NodeOrFactory, target: Node, index: number) {
+  if (typeof nodeOrFactory === 'function') {
+    return nodeOrFactory(target);
+  }
+  return index === 0 ? nodeOrFactory : cloneNode(nodeOrFactory);
+}
+
+function* unique(nodes: Iterable<Node>) {
+  const seen = new Set<Node>();
+  for (const node of nodes) {
+    if (!seen.has(node)) {
+      seen.add(node);
+      yield node;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+// The position in a list of child nodes that `depthFirstLive` and `visit`
+// keep, so that they can carry on after the tree changes under them. This
+// module isn't exported from the index.
+
+import {ASTNode as Node} from 'parse5';
+
+import {GetChildNodes} from './util';
+
+/**
+ * A node on the way down to the one a walk is at, and the index of its child
+ * to visit next.
+ */
+export interface Cursor {
+  node: Node;
+  index: number;
+}
+
+/**
+ * Points `cursor.index` at `child`, which may have moved if its siblings
+ * changed. Returns false if `child` is no longer a child of `cursor.node`.
+ */
+export function moveCursorTo(
+    cursor: Cursor, child: Node, getChildNodes: GetChildNodes): boolean {
+  const childNodes = getChildNodes(cursor.node) || [];
+  if (childNodes[cursor.index] === child) {
+    return true;
+  }
+  const index = childNodes.indexOf(child);
+  if (index === -1) {
+    return false;
+  }
+  cursor.index = index;
+  return true;
+}
+
+/**
+ * Moves `cursor` on to the sibling after `child`. If `child` is gone, the
+ * index is left where it is, as it now holds whatever replaced it.
+ */
+export function moveCursorPast(
+    cursor: Cursor, child: Node, getChildNodes: GetChildNodes) {
+  if (moveCursorTo(cursor, child, getChildNodes)) {
+    cursor.index++;
+  }
+}
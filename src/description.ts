@@ -0,0 +1,322 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTNode as Node} from 'parse5';
+
+import {escapeIdentifier, quoteString} from './escaping';
+import {Predicate, RelationshipOptions} from './predicates';
+
+/**
+ * A structured description of how a predicate was made.
+ */
+export interface PredicateDescription {
+  /** The name of the function that made the predicate, e.g. `hasTagName`. */
+  name: string;
+  /**
+   * The arguments that function was called with, or `undefined` if the
+   * predicate is a plain function like `isElement` rather than the result of
+   * a call.
+   */
+  args?: PredicateArgument[];
+}
+
+/** An argument to a predicate factory. */
+export type PredicateArgument = {} | null | undefined;
+
+const descriptions = new WeakMap<Predicate, PredicateDescription>();
+
+/**
+ * Records that `predicate` was made by calling `name` with `args`, and
+ * returns it.
+ */
+export function setDescription(
+    predicate: Predicate, name: string, args: ArrayLike<PredicateArgument>):
+    Predicate {
+  descriptions.set(predicate, {name, args: Array.from(args)});
+  return predicate;
+}
+
+/**
+ * Wraps a predicate factory so that each predicate it returns is described as
+ * a call to `name`.
+ */
+export function
+describable<F extends(...args: PredicateArgument[]) => Predicate>(
+    name: string, factory: F): F {
+  const wrapper = function(...args: PredicateArgument[]) {
+    return setDescription(factory(...args), name, args);
+  };
+  return wrapper as F;
+}
+
+/**
+ * Returns the description of `predicate`. Predicates that dom5 didn't make
+ * are described by their function name.
+ */
+export function getDescription(predicate: Predicate): PredicateDescription {
+  return descriptions.get(predicate) || {name: predicate.name || 'anonymous'};
+}
+
+/**
+ * Renders `predicate` as the expression that made it, e.g.
+ * `AND(hasTagName("link"), hasAttrValue("rel", "import"))`.
+ */
+export function describe(predicate: Predicate): string {
+  const {name, args} = getDescription(predicate);
+  if (args === undefined) {
+    return name;
+  }
+  return `${name}(${args.map(describeArgument).join(', ')})`;
+}
+
+function describeArgument(arg: PredicateArgument): string {
+  if (typeof arg === 'function') {
+    return describe(arg as Predicate);
+  }
+  if (arg instanceof RegExp) {
+    return arg.toString();
+  }
+  if (arg === undefined) {
+    return 'undefined';
+  }
+  if (isNode(arg)) {
+    // Nodes link to their parents, so can't be rendered as JSON.
+    return `<${arg.tagName || arg.nodeName}>`;
+  }
+  try {
+    const json = JSON.stringify(arg);
+    if (json !== undefined) {
+      return json;
+    }
+  } catch (error) {
+    // Circular or otherwise unserializable; fall through.
+  }
+  return '{...}';
+}
+
+function isNode(arg: {}|null): arg is Node {
+  return arg !== null && typeof arg === 'object' &&
+      typeof(arg as Partial<Node>).nodeName === 'string';
+}
+
+/**
+ * Renders `predicate` as a CSS selector where possible, e.g.
+ * `link[rel="import"]`.
+ *
+ * Parts without a CSS equivalent are rendered as pseudo-classes holding their
+ * `describe()`d form, e.g. `div:hasTextValue("Hello")`, so the result is
+ * meant for people to read rather than for `compileSelector`.
+ */
+export function describeAsSelector(predicate: Predicate): string {
+  const {name, args} = getDescription(predicate);
+  if (name === 'OR' && args !== undefined) {
+    return (args as Predicate[]).map(describeAsSelector).join(', ');
+  }
+  return render(predicate).selector;
+}
+
+interface RenderedSelector {
+  selector: string;
+  /**
+   * Whether `selector` is a single compound selector, which can be combined
+   * with others without wrapping it in `:is()`.
+   */
+  isCompound: boolean;
+}
+
+const attributeOperators: {[name: string]: string} = {
+  hasAttrValue: '=',
+  hasSpaceSeparatedAttrValue: '~=',
+  hasDashSeparatedAttrValue: '|=',
+  hasAttrValuePrefix: '^=',
+  hasAttrValueSuffix: '$=',
+  hasAttrValueSubstring: '*=',
+};
+
+const pseudoClasses: {[name: string]: string} = {
+  isEmpty: ':empty',
+  isFirstChild: ':first-child',
+  isFirstOfType: ':first-of-type',
+  isLastChild: ':last-child',
+  isLastOfType: ':last-of-type',
+  isOnlyChild: ':only-child',
+  isOnlyOfType: ':only-of-type',
+  isRoot: ':root',
+};
+
+const nthPseudoClasses: {[name: string]: string} = {
+  isNthChild: ':nth-child',
+  isNthLastChild: ':nth-last-child',
+  isNthOfType: ':nth-of-type',
+  isNthLastOfType: ':nth-last-of-type',
+};
+
+const combinators: {[name: string]: string} = {
+  parentMatches: ' ',
+  parentIs: ' > ',
+  previousSiblingMatches: ' + ',
+  anyPreviousSiblingMatches: ' ~ ',
+};
+
+function render(predicate: Predicate): RenderedSelector {
+  const {name, args} = getDescription(predicate);
+  if (args === undefined) {
+    if (name === 'isElement') {
+      return {selector: '*', isCompound: true};
+    }
+    return {selector: pseudoClasses[name] || `:${name}`, isCompound: true};
+  }
+  if (name === 'compileSelector') {
+    return {selector: args[0] as string, isCompound: false};
+  }
+  if (name === 'AND') {
+    return renderAnd(args as Predicate[]);
+  }
+  if (name === 'OR') {
+    const alternatives = args as Predicate[];
+    return {
+      selector: `:is(${alternatives.map(describeAsSelector).join(', ')})`,
+      isCompound: true,
+    };
+  }
+  if (name === 'NOT') {
+    return {
+      selector: `:not(${describeAsSelector(args[0] as Predicate)})`,
+      isCompound: true,
+    };
+  }
+  if (name === 'hasTagName' && isIdentifier(args[0])) {
+    return {selector: escapeIdentifier(args[0] as string), isCompound: true};
+  }
+  if (name === 'hasClass' && isIdentifier(args[0])) {
+    return {
+      selector: `.${escapeIdentifier(args[0] as string)}`,
+      isCompound: true
+    };
+  }
+  if (name === 'hasAttr' && isIdentifier(args[0])) {
+    return {
+      selector: `[${escapeIdentifier(args[0] as string)}]`,
+      isCompound: true
+    };
+  }
+  if (attributeOperators[name] !== undefined && isIdentifier(args[0]) &&
+      typeof args[1] === 'string') {
+    const attribute = escapeIdentifier(args[0] as string);
+    const value = quoteString(args[1] as string);
+    const flag = args[2] ? ' i' : '';
+    return {
+      selector: `[${attribute}${attributeOperators[name]}${value}${flag}]`,
+      isCompound: true,
+    };
+  }
+  if (nthPseudoClasses[name] !== undefined) {
+    return {
+      selector: `${
+                   nthPseudoClasses[name]
+                 }(${renderNth(args[0] as number, args[1] as number)})`,
+      isCompound: true,
+    };
+  }
+  const combinator = getCombinator(name, args);
+  if (combinator !== undefined) {
+    return {
+      selector: `${renderLeft(args[0] as Predicate)}${combinator}*`,
+      isCompound: false,
+    };
+  }
+  return {selector: `:${describe(predicate)}`, isCompound: true};
+}
+
+/**
+ * Whether `arg` can be written as a CSS identifier, once escaped.
+ */
+function isIdentifier(arg: PredicateArgument): boolean {
+  return typeof arg === 'string' && arg !== '';
+}
+
+/**
+ * Renders the arguments of an `AND` as one compound selector. The first
+ * argument that relates the node to another one becomes a combinator in front
+ * of it.
+ */
+function renderAnd(args: Predicate[]): RenderedSelector {
+  let prefix = '';
+  let tagName = '';
+  const parts: string[] = [];
+  for (const arg of args) {
+    const {name, args: argArgs} = getDescription(arg);
+    const combinator = getCombinator(name, argArgs);
+    if (prefix === '' && combinator !== undefined) {
+      prefix = renderLeft(argArgs![0] as Predicate) + combinator;
+      continue;
+    }
+    const rendered = render(arg);
+    if (name === 'hasTagName' && tagName === '') {
+      tagName = rendered.selector;
+    } else if (rendered.isCompound) {
+      if (rendered.selector !== '*') {
+        parts.push(rendered.selector);
+      }
+    } else {
+      parts.push(`:is(${rendered.selector})`);
+    }
+  }
+  const compound = tagName + parts.join('') || '*';
+  return {selector: prefix + compound, isCompound: prefix === ''};
+}
+
+/**
+ * Returns the combinator that a call to `name` with `args` can be rendered
+ * as, if any. The sibling predicates only mean the same as `+` and `~` when
+ * they skip every node that isn't an element.
+ */
+function getCombinator(
+    name: string, args: PredicateArgument[]|undefined): string|undefined {
+  if (args === undefined) {
+    return undefined;
+  }
+  if (name === 'previousSiblingMatches' ||
+      name === 'anyPreviousSiblingMatches') {
+    const options = args[1] as RelationshipOptions | undefined;
+    if (options === undefined || !options.elementsOnly) {
+      return undefined;
+    }
+  }
+  return combinators[name];
+}
+
+/** Renders the left-hand side of a combinator. */
+function renderLeft(predicate: Predicate): string {
+  const {name} = getDescription(predicate);
+  if (name === 'OR') {
+    return `:is(${describeAsSelector(predicate)})`;
+  }
+  const rendered = render(predicate);
+  if (name === 'compileSelector' && rendered.selector.indexOf(',') !== -1) {
+    return `:is(${rendered.selector})`;
+  }
+  return rendered.selector;
+}
+
+function renderNth(a: number, b: number): string {
+  if (a === 0) {
+    return `${b}`;
+  }
+  const step = a === 1 ? 'n' : a === -1 ? '-n' : `${a}n`;
+  if (b === 0) {
+    return step;
+  }
+  return b > 0 ? `${step}+${b}` : `${step}${b}`;
+}
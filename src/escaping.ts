@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+// Writing identifiers and strings in CSS selectors, for `getUniqueSelector`
+// and `describeAsSelector`. This module isn't exported from the index.
+
+/**
+ * Characters that can appear in a CSS identifier without being escaped.
+ */
+export const identifierChar = /[-_a-zA-Z0-9\u00A0-\uFFFF]/;
+
+/**
+ * Escapes `name` for use as a CSS identifier.
+ */
+export function escapeIdentifier(name: string): string {
+  let result = '';
+  for (let i = 0; i < name.length; i++) {
+    const char = name[i];
+    if (/[0-9]/.test(char) && (i === 0 || (i === 1 && name[0] === '-'))) {
+      // Identifiers can't start with a digit, so write it as a code point.
+      result += `\\${char.charCodeAt(0).toString(16)} `;
+    } else if (identifierChar.test(char)) {
+      result += char;
+    } else {
+      result += `\\${char}`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Quotes `value` as a CSS string.
+ */
+export function quoteString(value: string): string {
+  return '"' +
+      value.replace(/["\\]/g, (char) => `\\${char}`).replace(/\n/g, '\\a ') +
+      '"';
+}
@@ -18,7 +18,18 @@
 // we can do a breaking change that replaces the contents
 // of index.ts with this.
 
+export * from './collection';
+export * from './description';
+export * from './indexing';
 export * from './modification';
+export * from './observer';
+export * from './position';
 export * from './predicates';
+export * from './selector';
+export * from './streaming';
+export * from './transaction';
 export * from './util';
+export * from './validation';
+export * from './visitor';
 export * from './iteration';
+export * from './xpath';
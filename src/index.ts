@@ -11,7 +11,18 @@
  * subject to an additional IP rights grant found at
  * http://polymer.github.io/PATENTS.txt
  */
+export * from './collection';
+export * from './description';
+export * from './indexing';
 export * from './modification';
+export * from './observer';
+export * from './position';
 export * from './predicates';
+export * from './selector';
+export * from './streaming';
+export * from './transaction';
 export * from './util';
+export * from './validation';
+export * from './visitor';
 export * from './walking';
+export * from './xpath';
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTNode as Node, treeAdapters} from 'parse5';
+
+import {depthFirst} from './iteration';
+import {getTreeVersion} from './modification';
+import {Element, isElement} from './predicates';
+import {defaultChildNodes, getAttribute, GetChildNodes} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * Looks up the elements under `root` by id, tag name, class or attribute
+ * name without walking the tree each time.
+ *
+ * The tree is walked once up front, with `getChildNodes`. Changes made to
+ * the tree by dom5's functions (see `getTreeVersion`) mark the index as
+ * stale, and it is rebuilt on the next lookup, so results are always up to
+ * date, including for the content of `<template>`s that `getChildNodes` goes
+ * into. Changes made any other way aren't noticed unless `markTreeChanged` is
+ * called.
+ *
+ * Results are in document order. The arrays returned belong to the index and
+ * must not be modified.
+ */
+export class DocumentIndex {
+  private version = 0;
+  /**
+   * `root`, and the content of each `<template>` that `getChildNodes` went
+   * into, which `getTreeVersion` counts as a tree of its own.
+   */
+  private trees: Node[] = [];
+  private byId = new Map<string, Element[]>();
+  private byTagName = new Map<string, Element[]>();
+  private byClassName = new Map<string, Element[]>();
+  private byAttributeName = new Map<string, Element[]>();
+  private all: Element[] = [];
+
+  constructor(
+      readonly root: Node,
+      private readonly getChildNodes: GetChildNodes = defaultChildNodes) {
+    this.rebuild();
+  }
+
+  /**
+   * Whether the tree has changed since the index was last built.
+   */
+  get isStale(): boolean {
+    return this.latestVersion() !== this.version;
+  }
+
+  /**
+   * Rebuilds the index if the tree has changed since it was built. Lookups
+   * do this themselves.
+   */
+  refresh() {
+    if (this.isStale) {
+      this.rebuild();
+    }
+  }
+
+  /**
+   * Returns the first element with the id `id`, or `null`.
+   *
+   * Equivalent to `document.getElementById(id)` in the browser.
+   */
+  getElementById(id: string): Element|null {
+    this.refresh();
+    const elements = this.byId.get(id);
+    return elements === undefined ? null : elements[0];
+  }
+
+  /**
+   * Returns the elements with the tag name `tagName`, compared
+   * case-insensitively, or every element if `tagName` is `*`.
+   *
+   * Equivalent to `document.getElementsByTagName(tagName)` in the browser.
+   */
+  getElementsByTagName(tagName: string): ReadonlyArray<Element> {
+    this.refresh();
+    if (tagName === '*') {
+      return this.all;
+    }
+    return this.byTagName.get(tagName.toLowerCase()) || [];
+  }
+
+  /**
+   * Returns the elements that have every one of the whitespace separated
+   * `classNames`.
+   *
+   * Equivalent to `document.getElementsByClassName(classNames)` in the
+   * browser.
+   */
+  getElementsByClassName(classNames: string): ReadonlyArray<Element> {
+    this.refresh();
+    const [first, ...rest] = splitClasses(classNames);
+    const elements = first === undefined ? [] : this.byClassName.get(first);
+    if (elements === undefined || rest.length === 0) {
+      return elements || [];
+    }
+    const others = rest.map((name) => new Set(this.byClassName.get(name)));
+    return elements.filter(
+        (element) => others.every((other) => other.has(element)));
+  }
+
+  /**
+   * Returns the elements that have an attribute called `name`, compared
+   * case-insensitively as by `hasAttribute`.
+   */
+  getElementsByAttributeName(name: string): ReadonlyArray<Element> {
+    this.refresh();
+    return this.byAttributeName.get(name.toLowerCase()) || [];
+  }
+
+  private rebuild() {
+    this.trees = [this.root];
+    this.byId.clear();
+    this.byTagName.clear();
+    this.byClassName.clear();
+    this.byAttributeName.clear();
+    this.all = [];
+    for (const node of depthFirst(this.root, this.getChildNodes)) {
+      if (node === this.root || !isElement(node)) {
+        continue;
+      }
+      if (node.tagName === 'template') {
+        const content = treeAdapters.default.getTemplateContent(node);
+        if (this.getChildNodes(node) === content.childNodes) {
+          this.trees.push(content);
+        }
+      }
+      this.all.push(node);
+      add(this.byTagName, node.tagName.toLowerCase(), node);
+      const id = getAttribute(node, 'id');
+      if (id) {
+        add(this.byId, id, node);
+      }
+      for (const name of new Set(splitClasses(getAttribute(node, 'class')))) {
+        add(this.byClassName, name, node);
+      }
+      for (const attr of node.attrs) {
+        const name = attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name;
+        add(this.byAttributeName, name.toLowerCase(), node);
+      }
+    }
+    this.version = this.latestVersion();
+  }
+
+  /**
+   * Tree versions come from one counter, so the highest version of the trees
+   * that were indexed goes up whenever any of them changes.
+   */
+  private latestVersion() {
+    return Math.max(...this.trees.map(getTreeVersion));
+  }
+}
+
+function add(map: Map<string, Element[]>, key: string, element: Element) {
+  const elements = map.get(key);
+  if (elements === undefined) {
+    map.set(key, [element]);
+  } else if (elements[elements.length - 1] !== element) {
+    elements.push(element);
+  }
+}
+
+function splitClasses(classNames: string|null): string[] {
+  return (classNames || '').split(/[ \t\n\f\r]+/).filter((name) => name !== '');
+}
@@ -14,8 +14,10 @@
 
 import {ASTNode as Node} from 'parse5';
 
-import {isElement, Predicate, predicates as p} from './predicates';
-import {childNodesIncludeTemplate, defaultChildNodes, GetChildNodes} from './util';
+import {Cursor, moveCursorPast, moveCursorTo} from './cursor';
+import {Element, isElement, Predicate, TypeGuard} from './predicates';
+import {compileSelector} from './selector';
+import {childNodesIncludeTemplate, defaultChildNodes, defaultParentNode, GetChildNodes, GetParentNode, parentNodeIncludingTemplates, trackParentNodes} from './util';
 
 export {ASTNode as Node} from 'parse5';
 
@@ -30,7 +32,7 @@ export function*
         getChildNodes?: GetChildNodes): IterableIterator<U> {
   for (const child of depthFirst(node, getChildNodes)) {
     yield* mapfn(child);
-  };
+  }
 }
 
 
@@ -38,17 +40,25 @@ export function*
  * Yields `node` and all of its children, recursively.
  *
  * Yields `node` first, then yields each descendent in depth first order.
+ *
+ * The tree is walked with an explicit stack rather than by recursion, so even
+ * very deeply nested documents can't overflow the call stack.
  */
 export function*
     depthFirst(node: Node, getChildNodes: GetChildNodes = defaultChildNodes):
         IterableIterator<Node> {
-  yield node;
-  const childNodes = getChildNodes(node);
-  if (childNodes === undefined) {
-    return;
-  }
-  for (const child of childNodes) {
-    yield* depthFirst(child, getChildNodes);
+  const stack = [node];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    yield current;
+    const childNodes = getChildNodes(current);
+    if (childNodes === undefined) {
+      continue;
+    }
+    // Push in reverse so that the first child is popped first.
+    for (let i = childNodes.length - 1; i >= 0; i--) {
+      stack.push(childNodes[i]);
+    }
   }
 }
 
@@ -62,13 +72,143 @@ export function*
     depthFirstReversed(
         node: Node, getChildNodes: GetChildNodes = defaultChildNodes):
         IterableIterator<Node> {
-  const childNodes = getChildNodes(node);
-  if (childNodes !== undefined) {
-    for (const child of reversedView(childNodes)) {
-      yield* depthFirstReversed(child, getChildNodes);
+  // Each node is yielded once all of its children have been, last child
+  // first, so the stack tracks the next child to visit for each ancestor.
+  const frame = (frameNode: Node) => {
+    const childNodes = getChildNodes(frameNode) || [];
+    return {node: frameNode, childNodes, index: childNodes.length - 1};
+  };
+  const stack = [frame(node)];
+  while (stack.length > 0) {
+    const top = stack[stack.length - 1];
+    if (top.index >= 0) {
+      stack.push(frame(top.childNodes[top.index--]));
+    } else {
+      stack.pop();
+      yield top.node;
+    }
+  }
+}
+
+/**
+ * Yields `node` and all of its descendants in breadth first (level) order:
+ * `node`, then its children, then its grandchildren, and so on.
+ *
+ * Nodes more than `maxDepth` levels below `node` are not yielded, so a
+ * `maxDepth` of 1 yields `node` and its children.
+ */
+export function*
+    breadthFirst(
+        node: Node,
+        getChildNodes: GetChildNodes = defaultChildNodes,
+        maxDepth = Infinity): IterableIterator<Node> {
+  let level = [node];
+  for (let depth = 0; level.length > 0; depth++) {
+    const nextLevel: Node[] = [];
+    for (const levelNode of level) {
+      yield levelNode;
+      const childNodes =
+          depth < maxDepth ? getChildNodes(levelNode) : undefined;
+      if (childNodes !== undefined) {
+        for (const child of childNodes) {
+          nextLevel.push(child);
+        }
+      }
+    }
+    level = nextLevel;
+  }
+}
+
+/**
+ * A node yielded by `walk`, along with where it was found.
+ */
+export interface WalkEntry {
+  node: Node;
+  /** How many levels below the root of the walk `node` is. The root is 0. */
+  depth: number;
+  /**
+   * The node that `node` was found in, or `undefined` for the root. With
+   * `childNodesIncludeTemplate` this is the `<template>` for the top-level
+   * nodes of its content.
+   */
+  parent: Node|undefined;
+  /** The index of `node` in its parent's child nodes, or -1 for the root. */
+  index: number;
+}
+
+/**
+ * Like `depthFirst`, but yields a `WalkEntry` for each node recording its
+ * depth, parent and index, and doesn't go more than `maxDepth` levels below
+ * `node`.
+ *
+ * The children of a node are looked up after it is yielded, so changes made
+ * to them in the meantime are seen by the walk.
+ */
+export function*
+    walk(
+        node: Node,
+        getChildNodes: GetChildNodes = defaultChildNodes,
+        maxDepth = Infinity): IterableIterator<WalkEntry> {
+  const stack: WalkEntry[] = [{node, depth: 0, parent: undefined, index: -1}];
+  while (stack.length > 0) {
+    const entry = stack.pop()!;
+    yield entry;
+    const childNodes =
+        entry.depth < maxDepth ? getChildNodes(entry.node) : undefined;
+    if (childNodes === undefined) {
+      continue;
+    }
+    // Push in reverse so that the first child is popped first.
+    for (let index = childNodes.length - 1; index >= 0; index--) {
+      stack.push({
+        node: childNodes[index],
+        depth: entry.depth + 1,
+        parent: entry.node,
+        index,
+      });
     }
   }
+}
+
+/**
+ * Like `depthFirst`, but tolerates the tree being changed while it is being
+ * iterated.
+ *
+ * Rather than remembering which nodes are left to visit, the iterator keeps a
+ * cursor on the node it last yielded and moves on from wherever that node is
+ * when the next one is asked for:
+ *
+ *   - If it is still in the same parent, its children are visited next, then
+ *     the siblings after it, including any inserted since.
+ *   - If it was removed, replaced or moved elsewhere, the walk carries on with
+ *     whatever is now in its place: its replacement, the children that
+ *     `removeNodeSaveChildren` moved up, or its next sibling. Its own
+ *     children are not visited.
+ *
+ * Nodes inserted before the cursor are not visited.
+ */
+export function*
+    depthFirstLive(
+        node: Node, getChildNodes: GetChildNodes = defaultChildNodes):
+        IterableIterator<Node> {
   yield node;
+  const stack: Cursor[] = [{node, index: 0}];
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const childNodes = getChildNodes(frame.node) || [];
+    const child = childNodes[frame.index];
+    if (child === undefined) {
+      stack.pop();
+      if (stack.length > 0) {
+        moveCursorPast(stack[stack.length - 1], frame.node, getChildNodes);
+      }
+      continue;
+    }
+    yield child;
+    if (moveCursorTo(frame, child, getChildNodes)) {
+      stack.push({node: child, index: 0});
+    }
+  }
 }
 
 /**
@@ -80,15 +220,30 @@ export function depthFirstIncludingTemplates(node: Node) {
 
 /**
  * Yields `node` and each of its ancestors leading up the tree.
+ *
+ * Each node's parent is found with `getParentNode`.
  */
-export function* ancestors(node: Node): IterableIterator<Node> {
+export function*
+    ancestors(node: Node, getParentNode: GetParentNode = defaultParentNode):
+        IterableIterator<Node> {
   let currNode: Node|undefined = node;
   while (currNode !== undefined) {
     yield currNode;
-    currNode = currNode.parentNode;
+    currNode = getParentNode(currNode);
   }
 }
 
+/**
+ * Like `ancestors`, but carries on from the content fragment of a
+ * `<template>` under `root` to the `<template>`, so that for example the
+ * `<dom-module>` around a template can be found from a node inside it.
+ *
+ * See `parentNodeIncludingTemplates`.
+ */
+export function ancestorsIncludingTemplates(node: Node, root: Node) {
+  return ancestors(node, parentNodeIncludingTemplates(root));
+}
+
 /**
  * Yields each element that has the same parent as `node` but that
  * comes before it in the document.
@@ -97,9 +252,37 @@ export function* ancestors(node: Node): IterableIterator<Node> {
  * closest to `node`)
  */
 export function* previousSiblings(node: Node): IterableIterator<Node> {
+  const position = siblingPosition(node);
+  if (position === undefined) {
+    return;
+  }
+  const [siblings, index] = position;
+  yield* reversedView(siblings, index - 1);
+}
+
+/**
+ * Yields each node that has the same parent as `node` but that comes after it
+ * in the document, in document order.
+ */
+export function* nextSiblings(node: Node): IterableIterator<Node> {
+  const position = siblingPosition(node);
+  if (position === undefined) {
+    return;
+  }
+  const [siblings, index] = position;
+  for (let i = index + 1; i < siblings.length; i++) {
+    yield siblings[i];
+  }
+}
+
+/**
+ * Returns the child nodes of the parent of `node` and the index of `node` in
+ * them, or `undefined` if `node` has no parent.
+ */
+function siblingPosition(node: Node): [Node[], number]|undefined {
   const parent = node.parentNode;
   if (parent === undefined) {
-    return;
+    return undefined;
   }
   const siblings = parent.childNodes;
   if (siblings === undefined) {
@@ -110,7 +293,7 @@ export function* previousSiblings(node: Node): IterableIterator<Node> {
     throw new Error(
         `Inconsistent parse5 tree: parent does not know about child`);
   }
-  yield* reversedView(siblings, index - 1);
+  return [siblings, index];
 }
 
 /** Iterate arr in reverse, optionally starting at a given index. */
@@ -142,21 +325,69 @@ function* reversedView<U>(arr: U[], initialIndex = arr.length - 1) {
  *     <span>, <div>, <li>, <nav>, <body>, <head>, #document
  *
  * (`<head>` and `#document` are hallucinated by the html parser)
+ *
+ * The subtrees of earlier nodes are walked with `getChildNodes`, so with
+ * `childNodesIncludeTemplate` the content of earlier `<template>`s is included.
  */
-export function* prior(node: Node): IterableIterator<Node> {
-  for (const previousSibling of previousSiblings(node)) {
-    yield* depthFirstReversed(previousSibling);
+export function*
+    prior(node: Node, getChildNodes: GetChildNodes = defaultChildNodes):
+        IterableIterator<Node> {
+  let current: Node|undefined = node;
+  while (current !== undefined) {
+    for (const previousSibling of previousSiblings(current)) {
+      yield* depthFirstReversed(previousSibling, getChildNodes);
+    }
+    current = current.parentNode;
+    if (current !== undefined) {
+      yield current;
+    }
   }
-  const parent = node.parentNode;
-  if (parent) {
-    yield parent;
-    yield* prior(parent);
+}
+
+/**
+ * Yields every node in the document that comes after `node`, in document
+ * order, apart from the descendants of `node`.
+ *
+ * That is, each later sibling of `node` and its subtree, then each later
+ * sibling of its parent and their subtrees, and so on up the tree. So with the
+ * tree in the example for `prior`, `following(<span>)` yields `<b>`, `<em>`
+ * and so on.
+ *
+ * The subtrees of later nodes are walked with `getChildNodes`, so with
+ * `childNodesIncludeTemplate` the content of later `<template>`s is included.
+ */
+export function*
+    following(node: Node, getChildNodes: GetChildNodes = defaultChildNodes):
+        IterableIterator<Node> {
+  let current: Node|undefined = node;
+  while (current !== undefined) {
+    for (const nextSibling of nextSiblings(current)) {
+      yield* depthFirst(nextSibling, getChildNodes);
+    }
+    current = current.parentNode;
   }
 }
 
+/**
+ * Options for `queryAll` and `querySelectorAll`.
+ */
+export interface QueryOptions {
+  /**
+   * Find every match up front, when the query is made, rather than as the
+   * results are iterated. Changes made to the tree while iterating then have
+   * no effect on which elements are yielded, so removed elements are still
+   * yielded and inserted ones aren't.
+   */
+  snapshot?: boolean;
+}
+
 /**
  * Like queryAll, but just returns the first result.
  */
+export function query<N extends Node>(
+    node: Node, predicate: TypeGuard<N>, getChildNodes?: GetChildNodes): N|null;
+export function query(
+    node: Node, predicate: Predicate, getChildNodes?: GetChildNodes): Node|null;
 export function query(
     node: Node,
     predicate: Predicate,
@@ -170,16 +401,91 @@ export function query(
 /**
  * Applies `depthFirst` to node and yields each Element that matches the given
  * predicate.
+ *
+ * Matches are found lazily, as the results are iterated, from a walk that
+ * reads each node's children just after the node is yielded. So if the tree
+ * is changed while iterating, the results may include nodes that have been
+ * removed (such as the children of a removed or replaced element) and miss
+ * ones that have been added. Use the `snapshot` option to find every match
+ * first, or `queryAllLive` to follow the changes.
  */
-export function*
-    queryAll(
-        node: Node,
-        predicate: Predicate,
-        getChildNodes: GetChildNodes = defaultChildNodes) {
-  const elementPredicate = p.AND(isElement, predicate);
-  for (const desc of depthFirst(node, getChildNodes)) {
-    if (elementPredicate(desc)) {
-      yield desc;
+export function queryAll<N extends Node>(
+    node: Node,
+    predicate: TypeGuard<N>,
+    getChildNodes?: GetChildNodes,
+    options?: QueryOptions): IterableIterator<N>;
+export function queryAll(
+    node: Node,
+    predicate: Predicate,
+    getChildNodes?: GetChildNodes,
+    options?: QueryOptions): IterableIterator<Node>;
+export function queryAll(
+    node: Node,
+    predicate: Predicate,
+    getChildNodes: GetChildNodes = defaultChildNodes,
+    options: QueryOptions = {}): IterableIterator<Node> {
+  const matches = filterElements(depthFirst(node, getChildNodes), predicate);
+  return options.snapshot ? [...matches][Symbol.iterator]() : matches;
+}
+
+/**
+ * Like `queryAll`, but walks the tree with `depthFirstLive`, so the element
+ * last yielded can be removed, replaced or unwrapped with
+ * `removeNodeSaveChildren` before asking for the next one. See
+ * `depthFirstLive` for exactly what is yielded then.
+ */
+export function queryAllLive<N extends Node>(
+    node: Node, predicate: TypeGuard<N>, getChildNodes?: GetChildNodes):
+    IterableIterator<N>;
+export function queryAllLive(
+    node: Node, predicate: Predicate, getChildNodes?: GetChildNodes):
+    IterableIterator<Node>;
+export function queryAllLive(
+    node: Node,
+    predicate: Predicate,
+    getChildNodes: GetChildNodes = defaultChildNodes): IterableIterator<Node> {
+  return filterElements(depthFirstLive(node, getChildNodes), predicate);
+}
+
+function* filterElements(nodes: Iterable<Node>, predicate: Predicate) {
+  for (const node of nodes) {
+    if (isElement(node) && predicate(node)) {
+      yield node;
     }
   }
 }
+
+/**
+ * Like querySelectorAll, but just returns the first result.
+ */
+export function querySelector(
+    node: Node,
+    selector: string,
+    getChildNodes: GetChildNodes = defaultChildNodes): Element|null {
+  for (const result of querySelectorAll(node, selector, getChildNodes)) {
+    return result;
+  }
+  return null;
+}
+
+/**
+ * Like `queryAll`, but yields each element that matches the CSS `selector`.
+ * See `compileSelector` for the supported syntax.
+ *
+ * Combinators follow the tree as `getChildNodes` sees it, so with
+ * `childNodesIncludeTemplate` the selector `dom-module > template a` also
+ * matches anchors inside the template's content.
+ */
+export function querySelectorAll(
+    node: Node,
+    selector: string,
+    getChildNodes: GetChildNodes = defaultChildNodes,
+    options: QueryOptions = {}): IterableIterator<Element> {
+  const [trackedChildNodes, getParentNode] = trackParentNodes(getChildNodes);
+  // Selectors only match elements.
+  return queryAll(
+             node,
+             compileSelector(selector, getParentNode),
+             trackedChildNodes,
+             options) as IterableIterator<Element>;
+}
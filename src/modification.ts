@@ -12,14 +12,15 @@
  * http://polymer.github.io/PATENTS.txt
  */
 import * as cloneObject from 'clone';
-import {ASTNode as Node} from 'parse5';
+import {ASTAttribute, ASTNode as Node, treeAdapters} from 'parse5';
 
-import {isDocumentFragment, predicates as p} from './predicates';
-import {queryAll} from './walking';
+import {breadthFirst, depthFirst} from './iteration';
+import {CommentNode, Element, FragmentNode, isCommentNode, isDocument, isDocumentFragment, isElement, isTextNode, predicates as p, TextNode} from './predicates';
+import {childNodesIncludeTemplate, namespaces} from './util';
 
 export {ASTNode as Node} from 'parse5';
 
-function newTextNode(value: string): Node {
+function newTextNode(value: string): TextNode {
   return {
     nodeName: '#text',
     value: value,
@@ -29,7 +30,7 @@ function newTextNode(value: string): Node {
   };
 }
 
-function newCommentNode(comment: string): Node {
+function newCommentNode(comment: string): CommentNode {
   return {
     nodeName: '#comment',
     data: comment,
@@ -39,19 +40,19 @@ function newCommentNode(comment: string): Node {
   };
 }
 
-function newElement(tagName: string, namespace?: string): Node {
+function newElement(tagName: string, namespace?: string): Element {
   return {
     nodeName: tagName,
     tagName: tagName,
     childNodes: [],
-    namespaceURI: namespace || 'http://www.w3.org/1999/xhtml',
+    namespaceURI: namespace || namespaces.html,
     attrs: [],
     parentNode: undefined,
     __location: <any>undefined
   };
 }
 
-function newDocumentFragment(): Node {
+function newDocumentFragment(): FragmentNode {
   return {
     nodeName: '#document-fragment',
     childNodes: [],
@@ -74,6 +75,114 @@ export function cloneNode(node: Node): Node {
   return clone;
 }
 
+/**
+ * For the root of each tree that has been modified, the value of
+ * `changeCount` when it last was.
+ */
+const treeVersions = new WeakMap<Node, number>();
+let changeCount = 0;
+
+function rootOf(node: Node): Node {
+  let root = node;
+  while (root.parentNode !== undefined) {
+    root = root.parentNode;
+  }
+  return root;
+}
+
+/**
+ * Returns a number that changes whenever the tree that `node` is in is
+ * modified, including by moving `node` into another tree.
+ *
+ * Caches of information about a tree, like `DocumentIndex`, can compare this
+ * with the value from when they were filled to tell if they are out of date.
+ * The content of a `<template>` is a tree of its own, with its own version.
+ */
+export function getTreeVersion(node: Node): number {
+  return treeVersions.get(rootOf(node)) || 0;
+}
+
+/**
+ * Records that the tree that `node` is in has been modified, which changes
+ * what `getTreeVersion` returns for it.
+ *
+ * The functions in dom5 that modify trees call this themselves. Call it after
+ * modifying a tree any other way.
+ */
+export function markTreeChanged(node: Node) {
+  treeVersions.set(rootOf(node), ++changeCount);
+}
+
+/**
+ * A change that dom5 made to a tree: see `addChangeListener`.
+ */
+export type Change = ChildListChange | AttributesChange | CharacterDataChange;
+
+/**
+ * At `index` in the children of `target`, `removedNodes` were replaced with
+ * `addedNodes`.
+ */
+export interface ChildListChange {
+  type: 'childList';
+  target: Node;
+  index: number;
+  removedNodes: Node[];
+  addedNodes: Node[];
+}
+
+/**
+ * At `index` in the attributes of `target`, `oldAttribute` was replaced with
+ * `newAttribute`. One of them is missing if an attribute was added or
+ * removed. Both are copies, so they don't change with the element.
+ */
+export interface AttributesChange {
+  type: 'attributes';
+  target: Node;
+  index: number;
+  oldAttribute: (ASTAttribute&{namespace?: string})|undefined;
+  newAttribute: (ASTAttribute&{namespace?: string})|undefined;
+}
+
+/**
+ * The value of the text node, or the data of the comment node, `target` was
+ * changed from `oldValue` to `newValue`.
+ */
+export interface CharacterDataChange {
+  type: 'characterData';
+  target: Node;
+  oldValue: string;
+  newValue: string;
+}
+
+export type ChangeListener = (change: Change) => void;
+
+const changeListeners = new Set<ChangeListener>();
+
+/**
+ * Calls `listener` synchronously with each change that dom5's functions make
+ * to any tree, just after it is made, until the returned function is called.
+ */
+export function addChangeListener(listener: ChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+/**
+ * Marks the tree that `change.target` is in as changed (see
+ * `markTreeChanged`) and tells the listeners added with `addChangeListener`.
+ *
+ * The functions in dom5 that modify trees call this themselves, after making
+ * the change.
+ */
+export function recordChange(change: Change) {
+  markTreeChanged(change.target);
+  for (const listener of Array.from(changeListeners)) {
+    listener(change);
+  }
+}
+
 /**
  * Inserts `newNode` into `parent` at `index`, optionally replaceing the
  * current node at `index`. If `newNode` is a DocumentFragment, its childNodes
@@ -92,6 +201,13 @@ function insertNode(
       if (newNode.childNodes) {
         newNodes = Array.from(newNode.childNodes);
         newNode.childNodes.length = 0;
+        recordChange({
+          type: 'childList',
+          target: newNode,
+          index: 0,
+          removedNodes: newNodes,
+          addedNodes: [],
+        });
       }
     } else {
       newNodes = [newNode];
@@ -113,30 +229,225 @@ function insertNode(
   if (removedNode) {
     removedNode.parentNode = undefined;
   }
+  recordChange({
+    type: 'childList',
+    target: parent,
+    index: index,
+    removedNodes: removedNode ? [removedNode] : [],
+    addedNodes: newNodes,
+  });
+}
+
+/**
+ * Thrown by `insertBefore`, `insertAfter`, `append` and `replace` when a node
+ * can't go where it would be inserted, for example into one of its own
+ * descendants or into a text node.
+ *
+ * Equivalent to a `HierarchyRequestError` `DOMException` in the browser.
+ */
+export class HierarchyRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HierarchyRequestError';
+  }
+}
+
+/**
+ * Thrown by `insertBefore`, `insertAfter` and `replace` when the node to
+ * insert next to, or to replace, is not a child of the parent.
+ *
+ * Equivalent to a `NotFoundError` `DOMException` in the browser.
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
 }
 
-export function replace(oldNode: Node, newNode: Node) {
+export interface InsertionOptions {
+  /**
+   * Whether to check that the insertion is allowed before making it, as the
+   * browser does, and throw a `HierarchyRequestError` or `NotFoundError` if
+   * not. Defaults to `true`. Turning the checks off saves walking the
+   * ancestors of the parent, but an invalid insertion corrupts the tree.
+   */
+  validate?: boolean;
+}
+
+/**
+ * Throws if `node` can't be inserted into `parent` before `child`, or in
+ * place of `child` if `replacing`, following the DOM standard's "ensure
+ * pre-insertion validity" and the checks done by `replaceChild`.
+ */
+function ensureValidInsertion(
+    parent: Node, node: Node, child: Node|null, replacing: boolean) {
+  if (!(isDocument(parent) || isDocumentFragment(parent) ||
+        isElement(parent))) {
+    throw new HierarchyRequestError(
+        `Cannot insert a node into a ${parent.nodeName} node`);
+  }
+  if (isInclusiveAncestor(node, parent)) {
+    throw new HierarchyRequestError(
+        'Cannot insert a node into itself or one of its descendants');
+  }
+  if (child !== null && (parent.childNodes || []).indexOf(child) === -1) {
+    throw new NotFoundError(
+        replacing ? 'The node to replace is not a child of the parent' :
+                    'The node to insert before is not a child of the parent');
+  }
+  if (!(isDocumentFragment(node) || isDocumentType(node) || isElement(node) ||
+        isTextNode(node) || isCommentNode(node))) {
+    throw new HierarchyRequestError(`Cannot insert a ${node.nodeName} node`);
+  }
+  if (isTextNode(node) && isDocument(parent)) {
+    throw new HierarchyRequestError(
+        'Cannot insert a text node into a document');
+  }
+  if (isDocumentType(node) && !isDocument(parent)) {
+    throw new HierarchyRequestError(
+        'Cannot insert a doctype anywhere but into a document');
+  }
+  if (isDocument(parent)) {
+    ensureValidDocumentChild(parent, node, child, replacing);
+  }
+}
+
+/**
+ * Whether `node` is `other` or one of its ancestors, including through the
+ * content of a `<template>`. If `other` is in template content, `node` is
+ * searched for the `<template>` (see `getTemplateHosts`).
+ */
+function isInclusiveAncestor(node: Node, other: Node): boolean {
+  let root = other;
+  while (root.parentNode !== undefined) {
+    if (root === node) {
+      return true;
+    }
+    root = root.parentNode;
+  }
+  if (root === node) {
+    return true;
+  }
+  if (!isDocumentFragment(root) || node.childNodes === undefined) {
+    return false;
+  }
+  for (const descendant of depthFirst(node, childNodesIncludeTemplate)) {
+    if (descendant.nodeName === 'template' &&
+        treeAdapters.default.getTemplateContent(descendant) === root) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Throws if inserting `node` into `document` would leave it with more than
+ * one element or doctype, or with its doctype after its element.
+ */
+function ensureValidDocumentChild(
+    document: Node, node: Node, child: Node|null, replacing: boolean) {
+  const children = document.childNodes || [];
+  const others =
+      replacing ? children.filter((other) => other !== child) : children;
+  const index = child === null ? children.length : children.indexOf(child);
+  const hasElement = others.some(isElement);
+  const doctypeAfter =
+      children.slice(replacing ? index + 1 : index).some(isDocumentType);
+  let elementCount = 0;
+  if (isDocumentFragment(node)) {
+    const fragmentChildren = node.childNodes || [];
+    if (fragmentChildren.some(isTextNode)) {
+      throw new HierarchyRequestError(
+          'Cannot insert a text node into a document');
+    }
+    elementCount = fragmentChildren.filter(isElement).length;
+  } else if (isElement(node)) {
+    elementCount = 1;
+  }
+  if (elementCount > 1 || (elementCount === 1 && hasElement)) {
+    throw new HierarchyRequestError(
+        'Cannot insert a second element into a document');
+  }
+  if (elementCount === 1 && doctypeAfter) {
+    throw new HierarchyRequestError(
+        'Cannot insert an element before the doctype of a document');
+  }
+  if (isDocumentType(node)) {
+    if (others.some(isDocumentType)) {
+      throw new HierarchyRequestError(
+          'Cannot insert a second doctype into a document');
+    }
+    if (children.slice(0, index).some(isElement) ||
+        (child === null && hasElement)) {
+      throw new HierarchyRequestError(
+          'Cannot insert a doctype after the element of a document');
+    }
+  }
+}
+
+function isDocumentType(node: Node) {
+  return node.nodeName === '#documentType';
+}
+
+/**
+ * Replaces `oldNode` with `newNode`, or with the child nodes of `newNode` if
+ * it is a DocumentFragment.
+ */
+export function replace(
+    oldNode: Node, newNode: Node, options: InsertionOptions = {}) {
   const parent = oldNode.parentNode;
+  if (options.validate !== false) {
+    if (parent === undefined) {
+      throw new NotFoundError('The node to replace has no parent');
+    }
+    ensureValidInsertion(parent, newNode, oldNode, true);
+  }
   const index = parent!.childNodes!.indexOf(oldNode);
   insertNode(parent!, index, newNode, true);
 }
 
 export function remove(node: Node) {
   const parent = node.parentNode;
+  let idx = -1;
   if (parent && parent.childNodes) {
-    const idx = parent.childNodes.indexOf(node);
+    idx = parent.childNodes.indexOf(node);
     parent.childNodes.splice(idx, 1);
   }
   node.parentNode = undefined;
+  if (parent && idx !== -1) {
+    recordChange({
+      type: 'childList',
+      target: parent,
+      index: idx,
+      removedNodes: [node],
+      addedNodes: [],
+    });
+  } else if (parent) {
+    markTreeChanged(parent);
+  }
 }
 
-export function insertBefore(parent: Node, target: Node, newNode: Node) {
+export function insertBefore(
+    parent: Node, target: Node, newNode: Node, options: InsertionOptions = {}) {
+  if (options.validate !== false) {
+    ensureValidInsertion(parent, newNode, target, false);
+  }
   const index = parent.childNodes!.indexOf(target);
   insertNode(parent, index, newNode);
 }
 
-export function insertAfter(parent: Node, target: Node, newNode: Node) {
-  const index = parent.childNodes!.indexOf(target);
+export function insertAfter(
+    parent: Node, target: Node, newNode: Node, options: InsertionOptions = {}) {
+  const index = parent.childNodes ? parent.childNodes.indexOf(target) : -1;
+  if (options.validate !== false) {
+    if (index === -1) {
+      throw new NotFoundError(
+          'The node to insert after is not a child of the parent');
+    }
+    const next = parent.childNodes![index + 1];
+    ensureValidInsertion(parent, newNode, next || null, false);
+  }
   insertNode(parent, index + 1, newNode);
 }
 
@@ -151,9 +462,11 @@ export function removeNodeSaveChildren(node: Node) {
   if (!fosterParent) {
     return;
   }
+  // The children can always be moved up a level, but a document can end up
+  // with more than one element, like after `removeFakeRootElements`.
   const children = (node.childNodes || []).slice();
   for (const child of children) {
-    insertBefore(node.parentNode!, node, child);
+    insertBefore(node.parentNode!, node, child, {validate: false});
   }
   remove(node);
 }
@@ -165,20 +478,19 @@ export function removeNodeSaveChildren(node: Node) {
  * the `parse5.parse` be used with the `locationInfo` option of `true`.
  */
 export function removeFakeRootElements(ast: Node) {
-  const injectedNodes = queryAll(
-      ast,
-      p.AND(
-          (node) => !node.__location,
-          p.hasMatchingTagName(/^(html|head|body)$/i)),
-      undefined,
-      // Don't descend past 3 levels 'document > html > head|body'
-      (node) => node.parentNode && node.parentNode.parentNode ?
-          undefined :
-          node.childNodes);
+  // Don't descend past 3 levels 'document > html > head|body'
+  const injectedNodes = [...breadthFirst(ast, undefined, 2)].filter(p.AND(
+      isElement,
+      (node) => !node.__location,
+      p.hasMatchingTagName(/^(html|head|body)$/i)));
   injectedNodes.reverse().forEach(removeNodeSaveChildren);
 }
 
-export function append(parent: Node, newNode: Node) {
+export function append(
+    parent: Node, newNode: Node, options: InsertionOptions = {}) {
+  if (options.validate !== false) {
+    ensureValidInsertion(parent, newNode, null, false);
+  }
   const index = parent.childNodes && parent.childNodes.length || 0;
   insertNode(parent, index, newNode);
 }
@@ -0,0 +1,299 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTNode as Node} from 'parse5';
+
+import {ancestors} from './iteration';
+import {addChangeListener, Change} from './modification';
+import {TemplateHostTracker} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * A change to a tree, as reported to a `MutationObserver`. Has the same
+ * properties as a `MutationRecord` in the browser.
+ */
+export interface MutationRecord {
+  type: 'childList'|'attributes'|'characterData';
+  target: Node;
+  addedNodes: Node[];
+  removedNodes: Node[];
+  previousSibling: Node|null;
+  nextSibling: Node|null;
+  attributeName: string|null;
+  attributeNamespace: string|null;
+  oldValue: string|null;
+}
+
+/**
+ * Which changes a `MutationObserver` is told about, with the same meaning as
+ * the options to `MutationObserver#observe` in the browser.
+ */
+export interface MutationObserverInit {
+  childList?: boolean;
+  attributes?: boolean;
+  characterData?: boolean;
+  /** Also observe the descendants of the target. */
+  subtree?: boolean;
+  attributeOldValue?: boolean;
+  characterDataOldValue?: boolean;
+  /** Only observe attributes with these local names. */
+  attributeFilter?: string[];
+}
+
+export type MutationCallback =
+    (records: MutationRecord[], observer: MutationObserver) => void;
+
+interface Registration {
+  observer: MutationObserver;
+  options: MutationObserverInit;
+}
+
+interface ObserverState {
+  callback: MutationCallback;
+  records: MutationRecord[];
+  targets: Set<Node>;
+}
+
+const observerStates = new WeakMap<MutationObserver, ObserverState>();
+
+/**
+ * For each observed node, the observers of it and what they observe.
+ */
+const registrations = new WeakMap<Node, Registration[]>();
+
+/**
+ * The observers that are observing nodes, in the order they started.
+ */
+const activeObservers = new Set<MutationObserver>();
+
+/**
+ * The `<template>`s that have been in a tree observed with `subtree`.
+ */
+const templateHosts = new TemplateHostTracker();
+
+let stopListening: (() => void)|undefined;
+let deliveryScheduled = false;
+
+/**
+ * Tells callbacks about the changes that dom5's functions make to trees.
+ *
+ * Equivalent to `MutationObserver` in the browser. Records are queued as
+ * changes are made, and delivered together in a microtask, so the callback
+ * sees a batch of changes once the code making them is done. `takeRecords`
+ * returns the queued records straight away instead.
+ *
+ * Observing a node with `subtree` includes the content of its `<template>`
+ * descendants, including ones inserted later by dom5's functions. Unlike in the
+ * browser, nodes removed from an observed subtree stop being observed straight
+ * away. A callback that throws doesn't stop the others from being called; its
+ * error is reported with `console.error`.
+ */
+export class MutationObserver {
+  constructor(callback: MutationCallback) {
+    observerStates.set(this, {callback, records: [], targets: new Set()});
+  }
+
+  /**
+   * Starts observing `target`, or changes the options for it if it is
+   * already observed.
+   */
+  observe(target: Node, options: MutationObserverInit) {
+    options = normalizeOptions(options);
+    const targetRegistrations = registrations.get(target) || [];
+    registrations.set(target, targetRegistrations);
+    const existing = targetRegistrations.find(
+        (registration) => registration.observer === this);
+    if (existing !== undefined) {
+      existing.options = options;
+    } else {
+      targetRegistrations.push({observer: this, options});
+    }
+    if (options.subtree) {
+      templateHosts.learn(target);
+    }
+    observerStates.get(this)!.targets.add(target);
+    activeObservers.add(this);
+    if (stopListening === undefined) {
+      stopListening = addChangeListener(notify);
+    }
+  }
+
+  /**
+   * Stops observing every node, and discards any queued records.
+   */
+  disconnect() {
+    const state = observerStates.get(this)!;
+    for (const target of state.targets) {
+      const targetRegistrations = registrations.get(target)!.filter(
+          (registration) => registration.observer !== this);
+      registrations.set(target, targetRegistrations);
+    }
+    state.targets.clear();
+    state.records = [];
+    activeObservers.delete(this);
+    if (activeObservers.size === 0 && stopListening !== undefined) {
+      stopListening();
+      stopListening = undefined;
+    }
+  }
+
+  /**
+   * Returns the queued records, which will then not be delivered to the
+   * callback.
+   */
+  takeRecords(): MutationRecord[] {
+    const state = observerStates.get(this)!;
+    const records = state.records;
+    state.records = [];
+    return records;
+  }
+}
+
+function normalizeOptions(options: MutationObserverInit): MutationObserverInit {
+  options = {...options};
+  if (options.attributes === undefined &&
+      (options.attributeOldValue || options.attributeFilter)) {
+    options.attributes = true;
+  }
+  if (options.characterData === undefined && options.characterDataOldValue) {
+    options.characterData = true;
+  }
+  if (options.attributeOldValue && !options.attributes) {
+    throw new Error('attributeOldValue requires attributes');
+  }
+  if (options.attributeFilter && !options.attributes) {
+    throw new Error('attributeFilter requires attributes');
+  }
+  if (options.characterDataOldValue && !options.characterData) {
+    throw new Error('characterDataOldValue requires characterData');
+  }
+  if (!(options.childList || options.attributes || options.characterData)) {
+    throw new Error(
+        'The options to observe must include childList, attributes or ' +
+        'characterData');
+  }
+  return options;
+}
+
+/**
+ * Queues a record of `change` for each observer that is interested in it.
+ */
+function notify(change: Change) {
+  const interested = new Map<MutationObserver, MutationObserverInit>();
+  let inObservedSubtree = false;
+  for (const node of ancestors(change.target, templateHosts.getParentNode)) {
+    for (const {observer, options} of registrations.get(node) || []) {
+      inObservedSubtree = inObservedSubtree || !!options.subtree;
+      if ((node === change.target || options.subtree) &&
+          isInterested(change, options) && !interested.has(observer)) {
+        interested.set(observer, options);
+      }
+    }
+  }
+  // Only nodes inserted into an observed subtree need their templates
+  // learned, so that later changes to their content are seen.
+  if (inObservedSubtree && change.type === 'childList') {
+    change.addedNodes.forEach((node) => templateHosts.learn(node));
+  }
+  if (interested.size === 0) {
+    return;
+  }
+  const record = toRecord(change);
+  for (const [observer, options] of interested) {
+    const wantsOldValue = record.type === 'attributes' ?
+        options.attributeOldValue :
+        options.characterDataOldValue;
+    observerStates.get(observer)!.records.push(
+        wantsOldValue ? record : {...record, oldValue: null});
+  }
+  if (!deliveryScheduled) {
+    deliveryScheduled = true;
+    Promise.resolve().then(deliver);
+  }
+}
+
+function isInterested(change: Change, options: MutationObserverInit) {
+  switch (change.type) {
+    case 'childList':
+      return !!options.childList;
+    case 'attributes':
+      const attribute = (change.newAttribute || change.oldAttribute)!;
+      return !!options.attributes &&
+          (options.attributeFilter === undefined ||
+           (attribute.namespace === undefined &&
+            options.attributeFilter.indexOf(attribute.name) !== -1));
+    case 'characterData':
+      return !!options.characterData;
+  }
+}
+
+/**
+ * Makes a record of `change`, with its old value. It must be made as soon as
+ * the change is, while the siblings of the nodes it added are still the same.
+ */
+function toRecord(change: Change): MutationRecord {
+  const record: MutationRecord = {
+    type: change.type,
+    target: change.target,
+    addedNodes: [],
+    removedNodes: [],
+    previousSibling: null,
+    nextSibling: null,
+    attributeName: null,
+    attributeNamespace: null,
+    oldValue: null,
+  };
+  switch (change.type) {
+    case 'childList':
+      const childNodes = change.target.childNodes || [];
+      record.addedNodes = change.addedNodes;
+      record.removedNodes = change.removedNodes;
+      record.previousSibling = childNodes[change.index - 1] || null;
+      record.nextSibling =
+          childNodes[change.index + change.addedNodes.length] || null;
+      break;
+    case 'attributes':
+      const attribute = (change.newAttribute || change.oldAttribute)!;
+      record.attributeName = attribute.name;
+      record.attributeNamespace = attribute.namespace || null;
+      record.oldValue = change.oldAttribute ? change.oldAttribute.value : null;
+      break;
+    case 'characterData':
+      record.oldValue = change.oldValue;
+      break;
+  }
+  return record;
+}
+
+/**
+ * Calls the callback of each observer with its queued records, if any.
+ *
+ * As in the browser, a callback that throws doesn't stop the others from
+ * being called, and the error is reported to the console.
+ */
+function deliver() {
+  deliveryScheduled = false;
+  for (const observer of Array.from(activeObservers)) {
+    const records = observer.takeRecords();
+    if (records.length === 0) {
+      continue;
+    }
+    try {
+      observerStates.get(observer)!.callback(records, observer);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+}
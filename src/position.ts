@@ -0,0 +1,296 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTNode as Node, treeAdapters} from 'parse5';
+
+import {ancestors} from './iteration';
+import {defaultParentNode, GetParentNode, parentNodeIncludingTemplates} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * The bit flags returned by `compareDocumentPosition`, with the same values
+ * as the `Node.DOCUMENT_POSITION_*` constants in the browser.
+ */
+export const DOCUMENT_POSITION_DISCONNECTED = 0x01;
+export const DOCUMENT_POSITION_PRECEDING = 0x02;
+export const DOCUMENT_POSITION_FOLLOWING = 0x04;
+export const DOCUMENT_POSITION_CONTAINS = 0x08;
+export const DOCUMENT_POSITION_CONTAINED_BY = 0x10;
+export const DOCUMENT_POSITION_IMPLEMENTATION_SPECIFIC = 0x20;
+
+/**
+ * Where a node is: the root of its tree, and the index of each of its
+ * ancestors and then itself in its parent, starting below the root.
+ */
+interface Position {
+  root: Node;
+  path: number[];
+}
+
+/**
+ * Returns the position of `other` relative to `node` as a combination of the
+ * `DOCUMENT_POSITION_*` flags.
+ *
+ * Equivalent to `node.compareDocumentPosition(other)` in the browser, so for
+ * example an ancestor of `node` gives `DOCUMENT_POSITION_CONTAINS |
+ * DOCUMENT_POSITION_PRECEDING`, and a node in another tree gives
+ * `DOCUMENT_POSITION_DISCONNECTED` along with `PRECEDING` or `FOLLOWING`
+ * chosen consistently.
+ *
+ * Parents are found with `getParentNode`. With `parentNodeIncludingTemplates`
+ * the content of a `<template>` counts as being inside it, before any of the
+ * `<template>`'s own child nodes.
+ */
+export function compareDocumentPosition(
+    node: Node, other: Node, getParentNode: GetParentNode = defaultParentNode):
+    number {
+  if (node === other) {
+    return 0;
+  }
+  const nodePosition = getPosition(node, getParentNode);
+  const otherPosition = getPosition(other, getParentNode);
+  if (nodePosition.root !== otherPosition.root) {
+    return DOCUMENT_POSITION_DISCONNECTED |
+        DOCUMENT_POSITION_IMPLEMENTATION_SPECIFIC |
+        (rootId(otherPosition.root) < rootId(nodePosition.root) ?
+             DOCUMENT_POSITION_PRECEDING :
+             DOCUMENT_POSITION_FOLLOWING);
+  }
+  const nodePath = nodePosition.path;
+  const otherPath = otherPosition.path;
+  if (otherPath.length < nodePath.length && isPrefix(otherPath, nodePath)) {
+    return DOCUMENT_POSITION_CONTAINS | DOCUMENT_POSITION_PRECEDING;
+  }
+  if (nodePath.length < otherPath.length && isPrefix(nodePath, otherPath)) {
+    return DOCUMENT_POSITION_CONTAINED_BY | DOCUMENT_POSITION_FOLLOWING;
+  }
+  return comparePaths(nodePath, otherPath) < 0 ? DOCUMENT_POSITION_FOLLOWING :
+                                                 DOCUMENT_POSITION_PRECEDING;
+}
+
+/**
+ * @returns `true` iff `node` is `ancestor` or one of its descendants.
+ *
+ * Equivalent to `ancestor.contains(node)` in the browser.
+ */
+export function contains(
+    ancestor: Node,
+    node: Node,
+    getParentNode: GetParentNode = defaultParentNode): boolean {
+  for (const current of ancestors(node, getParentNode)) {
+    if (current === ancestor) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Returns the deepest node that is an ancestor of, or is, every one of
+ * `nodes`, or `undefined` if they are in different trees or none are given.
+ */
+export function commonAncestor(...nodes: Node[]): Node|undefined {
+  return findCommonAncestor(nodes, defaultParentNode);
+}
+
+/**
+ * Like `commonAncestor`, but carries on from the content fragment of a
+ * `<template>` under `root` to the `<template>`. See
+ * `ancestorsIncludingTemplates`.
+ */
+export function commonAncestorIncludingTemplates(
+    root: Node, ...nodes: Node[]): Node|undefined {
+  return findCommonAncestor(nodes, parentNodeIncludingTemplates(root));
+}
+
+function findCommonAncestor(nodes: Node[], getParentNode: GetParentNode): Node|
+    undefined {
+  if (nodes.length === 0) {
+    return undefined;
+  }
+  // The ancestors of the first node, root first, cut down to those shared
+  // with each of the other nodes in turn.
+  let shared = [...ancestors(nodes[0], getParentNode)].reverse();
+  for (const node of nodes.slice(1)) {
+    const chain = [...ancestors(node, getParentNode)].reverse();
+    let i = 0;
+    while (i < shared.length && i < chain.length && shared[i] === chain[i]) {
+      i++;
+    }
+    shared = shared.slice(0, i);
+  }
+  return shared[shared.length - 1];
+}
+
+/**
+ * Returns `nodes` in document order, with any duplicates removed.
+ *
+ * Nodes from different trees are grouped by tree, in an order that is
+ * consistent with `compareDocumentPosition`.
+ */
+export function sortInDocumentOrder<N extends Node>(
+    nodes: Iterable<N>, getParentNode: GetParentNode = defaultParentNode): N[] {
+  const unique = Array.from(new Set(nodes));
+  const positions = new Map(unique.map(
+      (node): [N, Position] => [node, getPosition(node, getParentNode)]));
+  return unique.sort((a, b) => {
+    const aPosition = positions.get(a)!;
+    const bPosition = positions.get(b)!;
+    if (aPosition.root !== bPosition.root) {
+      return rootId(aPosition.root) - rootId(bPosition.root);
+    }
+    return comparePaths(aPosition.path, bPosition.path);
+  });
+}
+
+/**
+ * Marks the step from a `<template>` into its content in a `NodePath`.
+ */
+export const TEMPLATE_CONTENT = 'content';
+
+/**
+ * The steps from the root of a tree down to a node: the index of each node in
+ * its parent's child nodes, or `TEMPLATE_CONTENT` to go from a `<template>`
+ * into its content.
+ *
+ * Paths are plain JSON, so they can be stored and resolved against a fresh
+ * parse of the same document.
+ */
+export type NodePath = Array<number|typeof TEMPLATE_CONTENT>;
+
+/**
+ * Returns the path from `root` down to `node`, going through the content of
+ * any `<template>`s in between.
+ *
+ * Parents are found with `getParentNode`, which must go from template content
+ * to its `<template>` like the default, `parentNodeIncludingTemplates(root)`.
+ * Throws if `node` is not `root` or under it.
+ */
+export function getNodePath(
+    node: Node,
+    root: Node,
+    getParentNode: GetParentNode =
+        parentNodeIncludingTemplates(root)): NodePath {
+  const position = getPosition(node, getParentNode);
+  if (position.root !== root) {
+    throw new Error('Cannot find the path to a node that is not under root');
+  }
+  return position.path.map((index) => index === -1 ? TEMPLATE_CONTENT : index);
+}
+
+/**
+ * Returns the node that `path` leads to from `root`, or `null` if there is no
+ * such node.
+ */
+export function resolveNodePath(root: Node, path: NodePath): Node|null {
+  let current = root;
+  for (const step of path) {
+    let next: Node|undefined;
+    if (step === TEMPLATE_CONTENT) {
+      if (current.nodeName === 'template') {
+        next = treeAdapters.default.getTemplateContent(current);
+      }
+    } else if (current.childNodes) {
+      next = current.childNodes[step];
+    }
+    if (next === undefined) {
+      return null;
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Returns `path` as a string like `/1/0/content/2`, for use in messages and
+ * snapshots. The empty path, leading to the root itself, is `/`.
+ */
+export function stringifyNodePath(path: NodePath): string {
+  return '/' + path.join('/');
+}
+
+/**
+ * Parses a string returned by `stringifyNodePath` back into a `NodePath`.
+ */
+export function parseNodePath(text: string): NodePath {
+  if (!/^\/((\d+|content)(\/(\d+|content))*)?$/.test(text)) {
+    throw new Error(`Invalid node path "${text}"`);
+  }
+  return text.split('/')
+      .slice(1)
+      .filter((step) => step !== '')
+      .map(
+          (step) =>
+              step === TEMPLATE_CONTENT ? TEMPLATE_CONTENT : Number(step));
+}
+
+function getPosition(node: Node, getParentNode: GetParentNode): Position {
+  const path = [];
+  let current = node;
+  let parent = getParentNode(current);
+  while (parent !== undefined) {
+    path.push(indexInParent(current, parent));
+    current = parent;
+    parent = getParentNode(current);
+  }
+  return {root: current, path: path.reverse()};
+}
+
+/**
+ * The index of `node` in the child nodes of `parent`, or -1 if `node` is the
+ * content of `parent` as a `<template>`, so that it sorts before them.
+ */
+function indexInParent(node: Node, parent: Node): number {
+  const index = parent.childNodes ? parent.childNodes.indexOf(node) : -1;
+  if (index === -1 && node.parentNode === parent) {
+    throw new Error(
+        `Inconsistent parse5 tree: parent does not know about child`);
+  }
+  return index;
+}
+
+/**
+ * Orders two paths from the same root. A path sorts before the paths of its
+ * descendants, which it is a prefix of.
+ */
+function comparePaths(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+function isPrefix(prefix: number[], path: number[]): boolean {
+  return comparePaths(prefix, path.slice(0, prefix.length)) === 0;
+}
+
+/**
+ * Arbitrary but stable numbers for the roots of trees, to order nodes in
+ * different trees.
+ */
+const rootIds = new WeakMap<Node, number>();
+let nextRootId = 0;
+
+function rootId(root: Node): number {
+  let id = rootIds.get(root);
+  if (id === undefined) {
+    id = nextRootId++;
+    rootIds.set(root, id);
+  }
+  return id;
+}
@@ -12,9 +12,10 @@
  * http://polymer.github.io/PATENTS.txt
  */
 
-import {ASTNode as Node} from 'parse5';
+import {ASTAttribute, ASTNode as Node} from 'parse5';
 
-import {getAttribute, getAttributeIndex, getTextContent} from './util';
+import {describable, setDescription} from './description';
+import {defaultParentNode, getAttribute, getAttributeIndex, GetParentNode, getTextContent, namespaces, parentNodeIncludingTemplates} from './util';
 
 export {ASTNode as Node} from 'parse5';
 
@@ -23,16 +24,89 @@ export {ASTNode as Node} from 'parse5';
  * Match the text inside an element, textnode, or comment
  *
  * Note: nodeWalkAll with hasTextValue may return an textnode and its parent if
- * the textnode is the only child in that parent.
+ * the textnode is the only child in that parent. Use the `ownTextOnly` option
+ * to match only the parent.
  */
-function hasTextValue(value: string): Predicate {
+function hasTextValue(value: string, options: TextOptions = {}): Predicate {
+  const expected =
+      options.normalizeWhitespace ? normalizeWhitespace(value) : value;
+  return textMatches(options, (text) => text === expected);
+}
+
+/**
+ * Match nodes whose text contains `value`.
+ */
+function containsText(value: string, options: TextOptions = {}): Predicate {
+  const expected =
+      options.normalizeWhitespace ? normalizeWhitespace(value) : value;
+  return textMatches(options, (text) => text.indexOf(expected) !== -1);
+}
+
+/**
+ * Match nodes whose text `regex.test()` matches.
+ */
+function hasTextMatching(regex: RegExp, options: TextOptions = {}): Predicate {
+  return textMatches(options, (text) => testFromStart(regex, text));
+}
+
+/**
+ * `regex.test(text)`, starting from the beginning of `text` even if `regex` is
+ * global or sticky and has been used before.
+ */
+function testFromStart(regex: RegExp, text: string): boolean {
+  regex.lastIndex = 0;
+  return regex.test(text);
+}
+
+/**
+ * Options for the predicates that look at the text of a node.
+ */
+export interface TextOptions {
+  /**
+   * Collapse runs of whitespace into single spaces and trim the ends of the
+   * text before comparing it. Values being compared against are normalized
+   * the same way.
+   */
+  normalizeWhitespace?: boolean;
+  /**
+   * Only look at the text nodes that are direct children of the node, so
+   * that an element can be found by its own label without also matching its
+   * ancestors or the text nodes themselves.
+   */
+  ownTextOnly?: boolean;
+}
+
+/**
+ * Shared implementation of the text predicates. Calls `test` with the text of
+ * the node as described by `options`.
+ */
+function textMatches(
+    options: TextOptions, test: (text: string) => boolean): Predicate {
   return function(node) {
-    return getTextContent(node) === value;
+    let text;
+    if (options.ownTextOnly) {
+      if (!node.childNodes) {
+        return false;
+      }
+      text = node.childNodes.filter(isTextNode).map((n) => n.value).join('');
+    } else {
+      text = getTextContent(node);
+    }
+    return test(options.normalizeWhitespace ? normalizeWhitespace(text) : text);
   };
 }
 
+function normalizeWhitespace(text: string): string {
+  return text.replace(/[ \t\n\f\r]+/g, ' ').replace(/^ | $/g, '');
+}
+
 export type Predicate = (node: Node) => boolean;
 
+/**
+ * A predicate that narrows the type of the nodes it matches, like `isElement`.
+ */
+export type TypeGuard<N extends Node> = (node: Node) => node is N;
+
 /**
  * OR an array of predicates
  */
@@ -82,30 +156,321 @@ function NOT(predicateFn: Predicate): Predicate {
 
 /**
  * Returns a predicate that matches any node with a parent matching
- * `predicateFn`.
+ * `predicateFn`, going up with `getParentNode`.
  */
-function parentMatches(predicateFn: Predicate): Predicate {
+function parentMatches(
+    predicateFn: Predicate,
+    getParentNode: GetParentNode = defaultParentNode): Predicate {
   return function(node) {
-    let parent = node.parentNode;
+    let parent = getParentNode(node);
     while (parent !== undefined) {
       if (predicateFn(parent)) {
         return true;
       }
-      parent = parent.parentNode;
+      parent = getParentNode(parent);
+    }
+    return false;
+  };
+}
+
+/**
+ * Like `parentMatches`, but carries on from the content fragment of a
+ * `<template>` under `root` to the `<template>`. See
+ * `ancestorsIncludingTemplates`.
+ */
+function parentMatchesIncludingTemplates(
+    predicateFn: Predicate, root: Node): Predicate {
+  return parentMatches(predicateFn, parentNodeIncludingTemplates(root));
+}
+
+/**
+ * Returns a predicate that matches any node whose direct parent, as returned
+ * by `getParentNode`, matches `predicateFn`.
+ */
+function parentIs(
+    predicateFn: Predicate,
+    getParentNode: GetParentNode = defaultParentNode): Predicate {
+  return function(node) {
+    const parent = getParentNode(node);
+    return parent !== undefined && predicateFn(parent);
+  };
+}
+
+/**
+ * Options for the predicates that look at the children or siblings of a node.
+ */
+export interface RelationshipOptions {
+  /** Ignore text nodes that contain only whitespace. */
+  skipWhitespace?: boolean;
+  /** Ignore comment nodes. */
+  skipComments?: boolean;
+  /** Ignore every node that isn't an element, as CSS combinators do. */
+  elementsOnly?: boolean;
+}
+
+/**
+ * Returns a predicate that matches any node with a child matching
+ * `predicateFn`.
+ */
+function hasChild(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return function(node) {
+    for (const child of node.childNodes || []) {
+      if (!isSkipped(child, options) && predicateFn(child)) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Returns a predicate that matches any node with a descendant matching
+ * `predicateFn`.
+ *
+ * Like `parentMatches`, this does not descend into `<template>` content.
+ */
+function hasDescendant(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return function(node) {
+    const stack = (node.childNodes || []).slice().reverse();
+    let descendant: Node|undefined;
+    while ((descendant = stack.pop()) !== undefined) {
+      if (isSkipped(descendant, options)) {
+        continue;
+      }
+      if (predicateFn(descendant)) {
+        return true;
+      }
+      const childNodes = descendant.childNodes || [];
+      for (let i = childNodes.length - 1; i >= 0; i--) {
+        stack.push(childNodes[i]);
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Returns a predicate that matches any node whose immediately preceding
+ * sibling matches `predicateFn`.
+ */
+function previousSiblingMatches(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return function(node) {
+    for (const sibling of siblings(node, -1, options)) {
+      return predicateFn(sibling);
+    }
+    return false;
+  };
+}
+
+/**
+ * Returns a predicate that matches any node with an earlier sibling matching
+ * `predicateFn`.
+ */
+function anyPreviousSiblingMatches(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return function(node) {
+    for (const sibling of siblings(node, -1, options)) {
+      if (predicateFn(sibling)) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Returns a predicate that matches any node whose immediately following
+ * sibling matches `predicateFn`.
+ */
+function nextSiblingMatches(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return function(node) {
+    for (const sibling of siblings(node, 1, options)) {
+      return predicateFn(sibling);
+    }
+    return false;
+  };
+}
+
+/**
+ * Returns a predicate that matches any node with a later sibling matching
+ * `predicateFn`.
+ */
+function anyNextSiblingMatches(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return function(node) {
+    for (const sibling of siblings(node, 1, options)) {
+      if (predicateFn(sibling)) {
+        return true;
+      }
     }
     return false;
   };
 }
 
+/**
+ * Returns a predicate that matches any node with another sibling, before or
+ * after it, matching `predicateFn`.
+ */
+function anySiblingMatches(
+    predicateFn: Predicate, options: RelationshipOptions = {}): Predicate {
+  return OR(
+      anyPreviousSiblingMatches(predicateFn, options),
+      anyNextSiblingMatches(predicateFn, options));
+}
+
+/**
+ * Yields the siblings of `node` moving away from it in `direction`, leaving
+ * out any that `options` says to skip.
+ */
+function*
+    siblings(node: Node, direction: 1 | -1, options: RelationshipOptions) {
+  const childNodes = node.parentNode && node.parentNode.childNodes;
+  if (childNodes === undefined) {
+    return;
+  }
+  const index = childNodes.indexOf(node);
+  if (index === -1) {
+    return;
+  }
+  for (let i = index + direction; i >= 0 && i < childNodes.length;
+       i += direction) {
+    if (!isSkipped(childNodes[i], options)) {
+      yield childNodes[i];
+    }
+  }
+}
+
+function isSkipped(node: Node, options: RelationshipOptions): boolean {
+  if (options.elementsOnly && !isElement(node)) {
+    return true;
+  }
+  if (options.skipComments && isCommentNode(node)) {
+    return true;
+  }
+  return !!options.skipWhitespace && isTextNode(node) &&
+      !/[^ \t\n\f\r]/.test(node.value || '');
+}
+
 function hasAttr(attr: string): Predicate {
   return function(node) {
     return getAttributeIndex(node, attr) > -1;
   };
 }
 
-function hasAttrValue(attr: string, value: string): Predicate {
+/**
+ * Matches elements whose `attr` attribute is exactly `value`.
+ *
+ * Equivalent to the `[attr=value]` CSS selector, or `[attr=value i]` when
+ * `caseInsensitive` is set.
+ */
+function hasAttrValue(
+    attr: string, value: string, caseInsensitive = false): Predicate {
+  return attrValueMatches(
+      attr, value, caseInsensitive, function(actual, expected) {
+        return actual === expected;
+      });
+}
+
+/**
+ * Matches elements whose `attr` attribute starts with `value`.
+ *
+ * Equivalent to the `[attr^=value]` CSS selector, so an empty `value` never
+ * matches.
+ */
+function hasAttrValuePrefix(
+    attr: string, value: string, caseInsensitive = false): Predicate {
+  return attrValueMatches(
+      attr, value, caseInsensitive, function(actual, expected) {
+        return expected !== '' && actual.startsWith(expected);
+      });
+}
+
+/**
+ * Matches elements whose `attr` attribute ends with `value`.
+ *
+ * Equivalent to the `[attr$=value]` CSS selector, so an empty `value` never
+ * matches.
+ */
+function hasAttrValueSuffix(
+    attr: string, value: string, caseInsensitive = false): Predicate {
+  return attrValueMatches(
+      attr, value, caseInsensitive, function(actual, expected) {
+        return expected !== '' && actual.endsWith(expected);
+      });
+}
+
+/**
+ * Matches elements whose `attr` attribute contains `value`.
+ *
+ * Equivalent to the `[attr*=value]` CSS selector, so an empty `value` never
+ * matches.
+ */
+function hasAttrValueSubstring(
+    attr: string, value: string, caseInsensitive = false): Predicate {
+  return attrValueMatches(
+      attr, value, caseInsensitive, function(actual, expected) {
+        return expected !== '' && actual.indexOf(expected) !== -1;
+      });
+}
+
+/**
+ * Matches elements whose `attr` attribute is either exactly `value` or starts
+ * with `value` followed by a hyphen, e.g. `hasDashSeparatedAttrValue('lang',
+ * 'en')` matches `lang="en"` and `lang="en-US"`.
+ *
+ * Equivalent to the `[attr|=value]` CSS selector.
+ */
+function hasDashSeparatedAttrValue(
+    attr: string, value: string, caseInsensitive = false): Predicate {
+  return attrValueMatches(
+      attr, value, caseInsensitive, function(actual, expected) {
+        return actual === expected || actual.startsWith(expected + '-');
+      });
+}
+
+/**
+ * Returns true if `regex.test()` matches the value of the `attr` attribute.
+ *
+ * If `caseInsensitive` is set, `regex` is matched as though it had the `i`
+ * flag.
+ */
+function hasMatchingAttrValue(
+    attr: string, regex: RegExp, caseInsensitive = false): Predicate {
+  if (caseInsensitive && !regex.ignoreCase) {
+    regex = new RegExp(regex.source, regex.flags + 'i');
+  }
   return function(node) {
-    return getAttribute(node, attr) === value;
+    const attributeValue = getAttribute(node, attr);
+    if (attributeValue === null) {
+      return false;
+    }
+    return testFromStart(regex, attributeValue);
+  };
+}
+
+/**
+ * Shared implementation of the attribute value predicates. Calls `test` with
+ * the attribute's value and `value`, lowercasing both first if
+ * `caseInsensitive` is set.
+ */
+function attrValueMatches(
+    attr: string,
+    value: string,
+    caseInsensitive: boolean,
+    test: (actual: string, expected: string) => boolean): Predicate {
+  const expected = caseInsensitive ? value.toLowerCase() : value;
+  return function(node) {
+    const attributeValue = getAttribute(node, attr);
+    if (attributeValue === null) {
+      return false;
+    }
+    return test(
+        caseInsensitive ? attributeValue.toLowerCase() : attributeValue,
+        expected);
   };
 }
 
@@ -123,6 +488,42 @@ function hasTagName(name: string): Predicate {
   };
 }
 
+/**
+ * Matches elements in `namespace` whose tag name is `name`, or elements in
+ * any namespace if `namespace` is `*`.
+ *
+ * Like CSS type selectors, HTML elements are matched case-insensitively, but
+ * SVG and MathML elements like `foreignObject` must match exactly.
+ */
+function hasTagNameNS(namespace: string, name: string): Predicate {
+  const n = name.toLowerCase();
+  return function(node) {
+    if (!node.tagName) {
+      return false;
+    }
+    const nodeNamespace = node.namespaceURI || namespaces.html;
+    if (namespace !== '*' && nodeNamespace !== namespace) {
+      return false;
+    }
+    if (nodeNamespace === namespaces.html) {
+      return node.tagName.toLowerCase() === n;
+    }
+    return node.tagName === name;
+  };
+}
+
+/**
+ * Matches elements whose namespace URI is `namespace`, e.g.
+ * `hasNamespace(namespaces.svg)`. Elements without one are in the HTML
+ * namespace.
+ */
+function hasNamespace(namespace: string): Predicate {
+  return function(node) {
+    return isElement(node) &&
+        (node.namespaceURI || namespaces.html) === namespace;
+  };
+}
+
 /**
  * Returns true if `regex.match(tagName)` finds a match.
  *
@@ -137,47 +538,297 @@ function hasMatchingTagName(regex: RegExp): Predicate {
   };
 }
 
+/**
+ * Matches elements whose `name` attribute, split on ASCII whitespace,
+ * contains `value` as one of its tokens.
+ *
+ * Equivalent to the `[name~=value]` CSS selector, so a `value` that is empty
+ * or contains whitespace never matches.
+ */
 export function hasSpaceSeparatedAttrValue(
-    name: string, value: string): Predicate {
-  return function(element: Node) {
-    const attributeValue = getAttribute(element, name);
-    if (typeof attributeValue !== 'string') {
+    name: string, value: string, caseInsensitive = false): Predicate {
+  const predicate = attrValueMatches(
+      name, value, caseInsensitive, function(actual, expected) {
+        if (expected === '' || asciiWhitespace.test(expected)) {
+          return false;
+        }
+        return actual.split(asciiWhitespace).indexOf(expected) !== -1;
+      });
+  return setDescription(predicate, 'hasSpaceSeparatedAttrValue', arguments);
+}
+
+const asciiWhitespace = /[ \t\n\f\r]+/;
+
+/**
+ * Matches elements whose 1-based position among their element siblings is
+ * `a*n + b` for some `n >= 0`.
+ *
+ * Equivalent to the `:nth-child(An+B)` CSS selector. Elements without a
+ * parent count as the only child of an imaginary one.
+ */
+function isNthChild(a: number, b: number): Predicate {
+  return function(node) {
+    return isElement(node) && matchesNth(a, b, elementPosition(node));
+  };
+}
+
+/**
+ * Like `isNthChild`, but counts from the last element sibling.
+ *
+ * Equivalent to the `:nth-last-child(An+B)` CSS selector.
+ */
+function isNthLastChild(a: number, b: number): Predicate {
+  return function(node) {
+    return isElement(node) &&
+        matchesNth(a, b, elementPosition(node, {fromEnd: true}));
+  };
+}
+
+/**
+ * Like `isNthChild`, but only counts siblings with the same tag name.
+ *
+ * Equivalent to the `:nth-of-type(An+B)` CSS selector.
+ */
+function isNthOfType(a: number, b: number): Predicate {
+  return function(node) {
+    return isElement(node) &&
+        matchesNth(a, b, elementPosition(node, {ofType: true}));
+  };
+}
+
+/**
+ * Like `isNthOfType`, but counts from the last sibling of the same type.
+ *
+ * Equivalent to the `:nth-last-of-type(An+B)` CSS selector.
+ */
+function isNthLastOfType(a: number, b: number): Predicate {
+  return function(node) {
+    return isElement(node) &&
+        matchesNth(a, b, elementPosition(node, {ofType: true, fromEnd: true}));
+  };
+}
+
+/**
+ * Equivalent to the `:first-child` CSS selector.
+ */
+function isFirstChild(node: Node): boolean {
+  return isElement(node) && elementPosition(node) === 1;
+}
+
+/**
+ * Equivalent to the `:last-child` CSS selector.
+ */
+function isLastChild(node: Node): boolean {
+  return isElement(node) && elementPosition(node, {fromEnd: true}) === 1;
+}
+
+/**
+ * Equivalent to the `:only-child` CSS selector.
+ */
+function isOnlyChild(node: Node): boolean {
+  return isFirstChild(node) && isLastChild(node);
+}
+
+/**
+ * Equivalent to the `:first-of-type` CSS selector.
+ */
+function isFirstOfType(node: Node): boolean {
+  return isElement(node) && elementPosition(node, {ofType: true}) === 1;
+}
+
+/**
+ * Equivalent to the `:last-of-type` CSS selector.
+ */
+function isLastOfType(node: Node): boolean {
+  return isElement(node) &&
+      elementPosition(node, {ofType: true, fromEnd: true}) === 1;
+}
+
+/**
+ * Equivalent to the `:only-of-type` CSS selector.
+ */
+function isOnlyOfType(node: Node): boolean {
+  return isFirstOfType(node) && isLastOfType(node);
+}
+
+/**
+ * Matches elements with no child elements and no non-empty text.
+ *
+ * Equivalent to the `:empty` CSS selector, so comments are ignored. Note that
+ * a `<template>` is empty as long as it has no children of its own, whatever
+ * its content.
+ */
+function isEmpty(node: Node): boolean {
+  if (!isElement(node)) {
+    return false;
+  }
+  for (const child of node.childNodes || []) {
+    if (isElement(child) || (isTextNode(child) && child.value)) {
       return false;
     }
-    return attributeValue.split(' ').indexOf(value) !== -1;
-  };
+  }
+  return true;
+}
+
+/**
+ * Matches the document element, i.e. an element whose parent is a document.
+ *
+ * Equivalent to the `:root` CSS selector. Top-level elements of a document
+ * fragment (including `<template>` content) are not matched.
+ */
+function isRoot(node: Node): boolean {
+  return isElement(node) && node.parentNode !== undefined &&
+      isDocument(node.parentNode);
+}
+
+/**
+ * Returns the 1-based position of `node` among the element children of its
+ * parent, only counting those with the same tag name if `ofType` is set.
+ */
+function elementPosition(
+    node: Node, options: {ofType?: boolean, fromEnd?: boolean} = {}): number {
+  const siblings = node.parentNode && node.parentNode.childNodes || [node];
+  const step = options.fromEnd ? -1 : 1;
+  let position = 0;
+  for (let i = options.fromEnd ? siblings.length - 1 : 0;
+       i >= 0 && i < siblings.length;
+       i += step) {
+    const sibling = siblings[i];
+    if (isElement(sibling) &&
+        (!options.ofType || sibling.tagName === node.tagName)) {
+      position++;
+    }
+    if (sibling === node) {
+      return position;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Whether `position` is `a*n + b` for some integer `n >= 0`.
+ */
+function matchesNth(a: number, b: number, position: number): boolean {
+  if (position < 1) {
+    return false;
+  }
+  if (a === 0) {
+    return position === b;
+  }
+  const n = (position - b) / a;
+  return n >= 0 && n % 1 === 0;
+}
+
+/**
+ * An element, as matched by `isElement`.
+ */
+export interface Element extends Node {
+  tagName: string;
+  attrs: ASTAttribute[];
+  childNodes: Node[];
+  namespaceURI: string;
+}
+
+/**
+ * A text node, as matched by `isTextNode`.
+ */
+export interface TextNode extends Node {
+  nodeName: '#text';
+  value: string;
+}
+
+/**
+ * A comment node, as matched by `isCommentNode`.
+ */
+export interface CommentNode extends Node {
+  nodeName: '#comment';
+  data: string;
+}
+
+/**
+ * A document, as matched by `isDocument`.
+ */
+export interface DocumentNode extends Node {
+  nodeName: '#document';
+  childNodes: Node[];
+}
+
+/**
+ * A document fragment, as matched by `isDocumentFragment`. The content of a
+ * `<template>` is one of these.
+ */
+export interface FragmentNode extends Node {
+  nodeName: '#document-fragment';
+  childNodes: Node[];
 }
 
-export function isDocument(node: Node): boolean {
+export function isDocument(node: Node): node is DocumentNode {
   return node.nodeName === '#document';
 }
 
-export function isDocumentFragment(node: Node): boolean {
+export function isDocumentFragment(node: Node): node is FragmentNode {
   return node.nodeName === '#document-fragment';
 }
 
-export function isElement(node: Node): boolean {
+export function isElement(node: Node): node is Element {
   return node.nodeName === node.tagName;
 }
 
-export function isTextNode(node: Node): boolean {
+export function isTextNode(node: Node): node is TextNode {
   return node.nodeName === '#text';
 }
 
-export function isCommentNode(node: Node): boolean {
+export function isCommentNode(node: Node): node is CommentNode {
   return node.nodeName === '#comment';
 }
 
 export const predicates = {
-  hasClass: hasClass,
-  hasAttr: hasAttr,
-  hasAttrValue: hasAttrValue,
-  hasMatchingTagName: hasMatchingTagName,
+  hasClass: describable('hasClass', hasClass),
+  hasAttr: describable('hasAttr', hasAttr),
+  hasAttrValue: describable('hasAttrValue', hasAttrValue),
+  hasAttrValuePrefix: describable('hasAttrValuePrefix', hasAttrValuePrefix),
+  hasAttrValueSuffix: describable('hasAttrValueSuffix', hasAttrValueSuffix),
+  hasAttrValueSubstring:
+      describable('hasAttrValueSubstring', hasAttrValueSubstring),
+  hasDashSeparatedAttrValue:
+      describable('hasDashSeparatedAttrValue', hasDashSeparatedAttrValue),
+  hasMatchingAttrValue:
+      describable('hasMatchingAttrValue', hasMatchingAttrValue),
+  hasMatchingTagName: describable('hasMatchingTagName', hasMatchingTagName),
   hasSpaceSeparatedAttrValue: hasSpaceSeparatedAttrValue,
-  hasTagName: hasTagName,
-  hasTextValue: hasTextValue,
-  AND: AND,
-  OR: OR,
-  NOT: NOT,
-  parentMatches: parentMatches,
+  hasTagName: describable('hasTagName', hasTagName),
+  hasTagNameNS: describable('hasTagNameNS', hasTagNameNS),
+  hasNamespace: describable('hasNamespace', hasNamespace),
+  hasTextValue: describable('hasTextValue', hasTextValue),
+  containsText: describable('containsText', containsText),
+  hasTextMatching: describable('hasTextMatching', hasTextMatching),
+  isEmpty: isEmpty,
+  isFirstChild: isFirstChild,
+  isFirstOfType: isFirstOfType,
+  isLastChild: isLastChild,
+  isLastOfType: isLastOfType,
+  isNthChild: describable('isNthChild', isNthChild),
+  isNthLastChild: describable('isNthLastChild', isNthLastChild),
+  isNthLastOfType: describable('isNthLastOfType', isNthLastOfType),
+  isNthOfType: describable('isNthOfType', isNthOfType),
+  isOnlyChild: isOnlyChild,
+  isOnlyOfType: isOnlyOfType,
+  isRoot: isRoot,
+  AND: describable('AND', AND),
+  OR: describable('OR', OR),
+  NOT: describable('NOT', NOT),
+  parentMatches: describable('parentMatches', parentMatches),
+  parentMatchesIncludingTemplates: describable(
+      'parentMatchesIncludingTemplates', parentMatchesIncludingTemplates),
+  parentIs: describable('parentIs', parentIs),
+  hasChild: describable('hasChild', hasChild),
+  hasDescendant: describable('hasDescendant', hasDescendant),
+  previousSiblingMatches:
+      describable('previousSiblingMatches', previousSiblingMatches),
+  anyPreviousSiblingMatches:
+      describable('anyPreviousSiblingMatches', anyPreviousSiblingMatches),
+  nextSiblingMatches: describable('nextSiblingMatches', nextSiblingMatches),
+  anyNextSiblingMatches:
+      describable('anyNextSiblingMatches', anyNextSiblingMatches),
+  anySiblingMatches: describable('anySiblingMatches', anySiblingMatches),
 };
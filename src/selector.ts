@@ -0,0 +1,501 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTAttribute, ASTNode as Node} from 'parse5';
+
+import {setDescription} from './description';
+import {escapeIdentifier, identifierChar, quoteString} from './escaping';
+import {depthFirst, querySelectorAll} from './iteration';
+import {Element, isElement, Predicate, predicates as p} from './predicates';
+import {childNodesIncludeTemplate, defaultChildNodes, defaultParentNode, getAttribute, GetChildNodes, GetParentNode, trackParentNodes} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * Compiles a CSS selector into a predicate that matches the same elements.
+ *
+ * Supported syntax:
+ *   - type and universal selectors: `div`, `*`
+ *   - id and class selectors: `#main`, `.active`
+ *   - attribute selectors: `[href]`, `[rel=import]`, `[class~="a b"]`, and
+ *     the `|=`, `^=`, `$=` and `*=` operators, with an optional `i` (case
+ *     insensitive) or `s` (case sensitive) flag
+ *   - the structural pseudo-classes `:first-child`, `:last-child`,
+ *     `:only-child`, `:first-of-type`, `:last-of-type`, `:only-of-type`,
+ *     `:nth-child()`, `:nth-last-child()`, `:nth-of-type()`,
+ *     `:nth-last-of-type()`, `:empty` and `:root`
+ *   - the descendant (` `), child (`>`), next-sibling (`+`) and
+ *     subsequent-sibling (`~`) combinators
+ *   - comma separated selector lists
+ *
+ * Combinators walk up the tree with `getParentNode`. Pass one that steps from
+ * the contents of a `<template>` to the `<template>` itself to let selectors
+ * match across that boundary.
+ */
+export function compileSelector(
+    selector: string,
+    getParentNode: GetParentNode = defaultParentNode): Predicate {
+  const predicate = new SelectorParser(selector, getParentNode).parse();
+  return setDescription(predicate, 'compileSelector', [selector]);
+}
+
+/**
+ * Returns a short CSS selector that matches `element` and no other element
+ * under `root`, or `null` if none of the selectors it tries is unique.
+ *
+ * The selector prefers the element's id, then its tag name, classes and
+ * other attributes (leaving out `style` and event handlers, which tend to
+ * change), and then its position with `:nth-child()` and `:nth-of-type()`.
+ * If none of those is unique, the same is tried for each ancestor in turn,
+ * joined with `>`. Candidates are checked with `querySelectorAll`.
+ *
+ * Under a document there is always a unique selector, as the path leads up to
+ * the `<html>` element. When `root` is a fragment or template content,
+ * selectors can't require an element to be a child of `root`, so `null` is
+ * returned if every selector for an element near the top also matches a
+ * more deeply nested one.
+ *
+ * `root` is searched with `getChildNodes`, so with `childNodesIncludeTemplate`
+ * the selector can lead from the document into a template's content. `root`
+ * can also be a template's content itself. Without `getChildNodes`, template
+ * content is only searched when `element` is inside it, in which case the
+ * selector only matches `element` with `childNodesIncludeTemplate`.
+ *
+ * Throws if `element` isn't under `root`.
+ */
+export function getUniqueSelector(
+    element: Element, root: Node, getChildNodes?: GetChildNodes): string|null {
+  const searchedChildNodes = getChildNodes ||
+      (isUnder(element, root, defaultChildNodes) ? defaultChildNodes :
+                                                   childNodesIncludeTemplate);
+  const [trackedChildNodes, getParentNode] =
+      trackParentNodes(searchedChildNodes);
+  if (!isUnder(element, root, trackedChildNodes)) {
+    throw new Error(`Cannot find a selector for a node that is not under root`);
+  }
+  const isUnique = (selector: string) => {
+    let matched = false;
+    for (const match of querySelectorAll(root, selector, searchedChildNodes)) {
+      if (match !== element || matched) {
+        return false;
+      }
+      matched = true;
+    }
+    return matched;
+  };
+  // The selectors that pick out the elements between `element` and the
+  // current level, each one among its siblings.
+  const below: string[] = [];
+  let current: Node|undefined = element;
+  while (current !== undefined && current !== root && isElement(current)) {
+    const candidates = selectorCandidates(current);
+    for (const candidate of candidates) {
+      const selector = [candidate, ...below].join(' > ');
+      if (isUnique(selector)) {
+        return selector;
+      }
+    }
+    below.unshift(candidates.find(matchesOnlyAmongSiblings(current))!);
+    current = getParentNode(current);
+  }
+  return null;
+}
+
+function isUnder(node: Node, root: Node, getChildNodes: GetChildNodes) {
+  for (const descendant of depthFirst(root, getChildNodes)) {
+    if (descendant === node && descendant !== root) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The compound selectors that match `element`, most preferred first. Those
+ * from the one using `:nth-child()` on always pick `element` out from its
+ * siblings; the ones after it also use `:nth-of-type()`, for when the same
+ * position is taken elsewhere in the tree.
+ */
+function selectorCandidates(element: Element): string[] {
+  const tagName = escapeIdentifier(element.tagName);
+  const candidates: string[] = [];
+  const id = getAttribute(element, 'id');
+  if (id) {
+    candidates.push(`#${escapeIdentifier(id)}`);
+  }
+  candidates.push(tagName);
+  const classes = (getAttribute(element, 'class') || '')
+                      .split(/[ \t\n\f\r]+/)
+                      .filter((name) => name !== '')
+                      .map((name) => `.${escapeIdentifier(name)}`);
+  candidates.push(...classes, ...classes.map((name) => tagName + name));
+  const attributes =
+      element.attrs.filter(isStableAttribute).map(attributeSelector);
+  candidates.push(
+      ...attributes, ...attributes.map((attribute) => tagName + attribute));
+  const siblings = elementSiblings(element);
+  const position = siblings.indexOf(element) + 1;
+  const positionOfType =
+      siblings.filter((sibling) => sibling.tagName === element.tagName)
+          .indexOf(element) +
+      1;
+  const nthChild = `:nth-child(${position})`;
+  const nthOfType = `:nth-of-type(${positionOfType})`;
+  candidates.push(
+      tagName + nthChild, tagName + nthOfType, tagName + nthOfType + nthChild);
+  return candidates;
+}
+
+/**
+ * Whether selecting an element by `attr` is likely to keep working as the
+ * document changes. Namespaced attributes are left out as selectors can't
+ * name their namespace.
+ */
+function isStableAttribute(attr: ASTAttribute): boolean {
+  return !attr.prefix && !/^(id|class|style|on.*)$/i.test(attr.name);
+}
+
+function attributeSelector(attr: ASTAttribute): string {
+  return `[${escapeIdentifier(attr.name)}=${quoteString(attr.value)}]`;
+}
+
+function matchesOnlyAmongSiblings(element: Element) {
+  const siblings = elementSiblings(element);
+  return (candidate: string) => {
+    const predicate = compileSelector(candidate);
+    return siblings.every(
+        (sibling) => predicate(sibling) === (sibling === element));
+  };
+}
+
+/**
+ * The element children of the parent of `element`, including `element`.
+ */
+function elementSiblings(element: Element): Element[] {
+  const parent = element.parentNode;
+  return (parent && parent.childNodes || [element]).filter(isElement);
+}
+
+type Combinator = ' '|'>'|'+'|'~';
+
+class SelectorParser {
+  private index = 0;
+
+  constructor(
+      private readonly selector: string,
+      private readonly getParentNode: GetParentNode) {
+  }
+
+  parse(): Predicate {
+    const alternatives = [this.parseComplexSelector()];
+    while (this.peek() === ',') {
+      this.index++;
+      alternatives.push(this.parseComplexSelector());
+    }
+    if (!this.atEnd()) {
+      throw this.error(`unexpected "${this.peek()}"`);
+    }
+    return alternatives.length === 1 ? alternatives[0] : p.OR(...alternatives);
+  }
+
+  /**
+   * Parses compound selectors separated by combinators. Each combinator wraps
+   * everything to its left, so `a > b c` becomes
+   * `AND(c, ancestor(AND(b, parent(a))))`.
+   */
+  private parseComplexSelector(): Predicate {
+    this.skipWhitespace();
+    let result = this.parseCompoundSelector();
+    while (true) {
+      const sawWhitespace = this.skipWhitespace();
+      const next = this.peek();
+      if (next === undefined || next === ',') {
+        return result;
+      }
+      let combinator: Combinator;
+      if (next === '>' || next === '+' || next === '~') {
+        combinator = next;
+        this.index++;
+        this.skipWhitespace();
+      } else if (sawWhitespace) {
+        combinator = ' ';
+      } else {
+        throw this.error(`unexpected "${next}"`);
+      }
+      result =
+          p.AND(this.parseCompoundSelector(), this.combine(combinator, result));
+    }
+  }
+
+  private parseCompoundSelector(): Predicate {
+    const start = this.index;
+    const parts: Predicate[] = [isElement];
+    if (this.peek() === '*') {
+      this.index++;
+    } else if (this.atIdentifier()) {
+      parts.push(p.hasTagName(this.parseIdentifier()));
+    }
+    while (true) {
+      const next = this.peek();
+      if (next === '#') {
+        this.index++;
+        parts.push(p.hasAttrValue('id', this.parseIdentifier()));
+      } else if (next === '.') {
+        this.index++;
+        parts.push(p.hasClass(this.parseIdentifier()));
+      } else if (next === '[') {
+        parts.push(this.parseAttributeSelector());
+      } else if (next === ':') {
+        parts.push(this.parsePseudoClass());
+      } else {
+        break;
+      }
+    }
+    if (this.index === start) {
+      throw this.error(
+          this.atEnd() ? 'unexpected end of selector' :
+                         `unexpected "${this.peek()}"`);
+    }
+    return p.AND(...parts);
+  }
+
+  private parseAttributeSelector(): Predicate {
+    this.expect('[');
+    this.skipWhitespace();
+    const name = this.parseIdentifier();
+    this.skipWhitespace();
+    if (this.peek() === ']') {
+      this.index++;
+      return p.hasAttr(name);
+    }
+    let operator = '';
+    while (this.peek() !== '=') {
+      if (this.atEnd()) {
+        throw this.error('unexpected end of selector');
+      }
+      operator += this.selector[this.index++];
+    }
+    this.index++;
+    this.skipWhitespace();
+    const next = this.peek();
+    const value = next === '"' || next === '\'' ? this.parseString() :
+                                                  this.parseIdentifier();
+    this.skipWhitespace();
+    let caseInsensitive = false;
+    if (this.atIdentifier()) {
+      const flag = this.parseIdentifier().toLowerCase();
+      if (flag !== 'i' && flag !== 's') {
+        throw this.error(`unknown attribute selector flag "${flag}"`);
+      }
+      caseInsensitive = flag === 'i';
+      this.skipWhitespace();
+    }
+    this.expect(']');
+    switch (operator) {
+      case '':
+        return p.hasAttrValue(name, value, caseInsensitive);
+      case '~':
+        return p.hasSpaceSeparatedAttrValue(name, value, caseInsensitive);
+      case '|':
+        return p.hasDashSeparatedAttrValue(name, value, caseInsensitive);
+      case '^':
+        return p.hasAttrValuePrefix(name, value, caseInsensitive);
+      case '$':
+        return p.hasAttrValueSuffix(name, value, caseInsensitive);
+      case '*':
+        return p.hasAttrValueSubstring(name, value, caseInsensitive);
+      default:
+        throw this.error(`unsupported attribute operator "${operator}="`);
+    }
+  }
+
+  private parsePseudoClass(): Predicate {
+    this.expect(':');
+    const name = this.parseIdentifier().toLowerCase();
+    switch (name) {
+      case 'empty':
+        return p.isEmpty;
+      case 'first-child':
+        return p.isFirstChild;
+      case 'first-of-type':
+        return p.isFirstOfType;
+      case 'last-child':
+        return p.isLastChild;
+      case 'last-of-type':
+        return p.isLastOfType;
+      case 'only-child':
+        return p.isOnlyChild;
+      case 'only-of-type':
+        return p.isOnlyOfType;
+      case 'root':
+        return p.isRoot;
+      case 'nth-child':
+        return this.parseNthArgument(p.isNthChild);
+      case 'nth-last-child':
+        return this.parseNthArgument(p.isNthLastChild);
+      case 'nth-of-type':
+        return this.parseNthArgument(p.isNthOfType);
+      case 'nth-last-of-type':
+        return this.parseNthArgument(p.isNthLastOfType);
+      default:
+        throw this.error(`unsupported pseudo-class ":${name}"`);
+    }
+  }
+
+  /**
+   * Parses a parenthesized `An+B` expression, like `(2n+1)`, `(-n + 3)` or
+   * `(odd)`, and passes `A` and `B` to `predicateFactory`.
+   */
+  private parseNthArgument(
+      predicateFactory: (a: number, b: number) => Predicate): Predicate {
+    this.expect('(');
+    const end = this.selector.indexOf(')', this.index);
+    if (end === -1) {
+      throw this.error('expected ")" but reached the end');
+    }
+    const expression =
+        this.selector.slice(this.index, end).trim().toLowerCase();
+    let result: [number, number]|undefined;
+    if (expression === 'odd') {
+      result = [2, 1];
+    } else if (expression === 'even') {
+      result = [2, 0];
+    } else if (/^[+-]?\d+$/.test(expression)) {
+      result = [0, parseInt(expression, 10)];
+    } else {
+      const match = /^([+-]?\d*)n(?:\s*([+-])\s*(\d+))?$/.exec(expression);
+      if (match) {
+        const a = match[1] === '' || match[1] === '+' ?
+            1 :
+            match[1] === '-' ? -1 : parseInt(match[1], 10);
+        const b = match[2] ? parseInt(match[2] + match[3], 10) : 0;
+        result = [a, b];
+      }
+    }
+    if (result === undefined) {
+      throw this.error(`invalid An+B expression "${expression}"`);
+    }
+    this.index = end + 1;
+    return predicateFactory(result[0], result[1]);
+  }
+
+  private combine(combinator: Combinator, left: Predicate): Predicate {
+    switch (combinator) {
+      case ' ':
+        return p.parentMatches(left, this.getParentNode);
+      case '>':
+        return p.parentIs(left, this.getParentNode);
+      case '+':
+        return p.previousSiblingMatches(left, {elementsOnly: true});
+      case '~':
+        return p.anyPreviousSiblingMatches(left, {elementsOnly: true});
+    }
+  }
+
+  private parseIdentifier(): string {
+    let result = '';
+    while (!this.atEnd()) {
+      const char = this.selector[this.index];
+      if (char === '\\') {
+        result += this.parseEscape();
+      } else if (identifierChar.test(char)) {
+        result += char;
+        this.index++;
+      } else {
+        break;
+      }
+    }
+    if (result === '') {
+      throw this.error(
+          this.atEnd() ? 'unexpected end of selector' :
+                         `expected an identifier but found "${this.peek()}"`);
+    }
+    return result;
+  }
+
+  private parseString(): string {
+    const quote = this.selector[this.index++];
+    let result = '';
+    while (this.peek() !== quote) {
+      if (this.atEnd()) {
+        throw this.error('unterminated string');
+      }
+      if (this.peek() === '\\') {
+        result += this.parseEscape();
+      } else {
+        result += this.selector[this.index++];
+      }
+    }
+    this.index++;
+    return result;
+  }
+
+  /**
+   * Parses a backslash escape, either a hex code point (with an optional
+   * trailing space) or a single literal character.
+   */
+  private parseEscape(): string {
+    this.index++;
+    const hex = /^[0-9a-fA-F]{1,6}/.exec(this.selector.slice(this.index));
+    if (hex) {
+      this.index += hex[0].length;
+      if (this.peek() === ' ') {
+        this.index++;
+      }
+      return String.fromCodePoint(parseInt(hex[0], 16));
+    }
+    if (this.atEnd()) {
+      throw this.error('unexpected end of selector');
+    }
+    return this.selector[this.index++];
+  }
+
+  private atIdentifier(): boolean {
+    const next = this.peek();
+    return next !== undefined && (next === '\\' || identifierChar.test(next));
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.index;
+    while (!this.atEnd() && whitespace.test(this.selector[this.index])) {
+      this.index++;
+    }
+    return this.index !== start;
+  }
+
+  private expect(char: string) {
+    if (this.peek() !== char) {
+      throw this.error(
+          this.atEnd() ? `expected "${char}" but reached the end` :
+                         `expected "${char}" but found "${this.peek()}"`);
+    }
+    this.index++;
+  }
+
+  private peek(): string|undefined {
+    return this.selector[this.index];
+  }
+
+  private atEnd(): boolean {
+    return this.index >= this.selector.length;
+  }
+
+  private error(message: string): Error {
+    return new Error(
+        `Invalid selector "${this.selector}": ${message} ` +
+        `at index ${this.index}`);
+  }
+}
+
+const whitespace = /[ \t\n\r\f]/;
@@ -0,0 +1,364 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTAttribute, ASTNode as Node, SAXParser, StartTagLocationInfo} from 'parse5';
+
+import {Predicate} from './predicates';
+import {namespaces} from './util';
+import {STOP} from './visitor';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * An element found by `queryStream`. It has the same shape as a parse5
+ * element, so predicates can be applied to it, but has no child nodes, and
+ * its `parentNode` is the element it was found in, if any.
+ */
+export interface StreamedElement extends Node {
+  tagName: string;
+  attrs: ASTAttribute[];
+  namespaceURI: string;
+  parentNode: StreamedElement|undefined;
+  /** Whether the start tag ended with `/>`. */
+  selfClosing: boolean;
+  /** Where the start tag is in the source. */
+  __location: StartTagLocationInfo;
+}
+
+/**
+ * Parses the HTML read from `input` with parse5's `SAXParser`, without
+ * building a tree, and finds each element that matches `predicate` as its
+ * start tag is reached.
+ *
+ * Without a `callback`, returns an async iterator of the matching elements,
+ * for use with `for await`. `input` is paused while the loop body runs, and
+ * breaking out of the loop stops reading `input`.
+ *
+ * With a `callback`, calls it with each matching element, and returns a
+ * promise that resolves once `input` has been read or `STOP` was returned
+ * from `callback`. Return `STOP` to stop reading `input`.
+ *
+ * Either way, if `predicate`, `callback` or `input` throws an error, the
+ * error is thrown from the loop or rejects the promise. Stopping early, by
+ * `STOP`, `break` or an error, destroys `input`, closing the file of an
+ * `fs.createReadStream`.
+ *
+ * As only the start tag of an element and those of its ancestors have been
+ * seen when it is matched, `predicate` can only look at tag names,
+ * attributes and ancestors. So `hasTagName`, the `hasAttr*` predicates,
+ * `hasClass`, `parentMatches`, `AND`, `OR` and `NOT` work, as do selectors
+ * from `compileSelector` that only use type, id, class and attribute
+ * selectors and the descendant and child combinators. Predicates that look
+ * at children, siblings or text never match.
+ *
+ * Ancestors are worked out from the tags as written, taking account of void
+ * elements and the common end tags that HTML lets you leave out, but without
+ * all of the HTML parsing algorithm's error recovery.
+ */
+export function queryStream(input: NodeJS.ReadableStream, predicate: Predicate):
+    AsyncIterableIterator<StreamedElement>;
+export function queryStream(
+    input: NodeJS.ReadableStream,
+    predicate: Predicate,
+    callback: (element: StreamedElement) => typeof STOP|void): Promise<void>;
+export function queryStream(
+    input: NodeJS.ReadableStream,
+    predicate: Predicate,
+    callback?: (element: StreamedElement) => typeof STOP|
+    void): AsyncIterableIterator<StreamedElement>|Promise<void> {
+  if (callback === undefined) {
+    return iterateMatches(input, predicate);
+  }
+  const matched = callback;
+  return new Promise<void>((resolve, reject) => {
+    const reading = readMatches(input, predicate, (element) => {
+      if (matched(element) === STOP) {
+        reading.stop();
+        resolve();
+      }
+    }, (error) => error ? reject(error) : resolve());
+  });
+}
+
+// clang-format doesn't understand async generators yet.
+// clang-format off
+/**
+ * Yields the elements that `readMatches` finds. `input` is paused while
+ * there are matches that haven't been yielded, so that a slow loop doesn't
+ * make the whole of `input` be read into memory.
+ */
+async function* iterateMatches(
+    input: NodeJS.ReadableStream, predicate: Predicate) {
+  const matches: StreamedElement[] = [];
+  let ended = false;
+  let failure: Error|undefined;
+  let wake = () => {};
+  const reading = readMatches(input, predicate, (element) => {
+    matches.push(element);
+    reading.pause();
+    wake();
+  }, (error) => {
+    ended = true;
+    failure = error;
+    wake();
+  });
+  try {
+    while (true) {
+      const element = matches.shift();
+      if (element !== undefined) {
+        yield element;
+      } else if (failure !== undefined) {
+        throw failure;
+      } else if (ended) {
+        return;
+      } else {
+        reading.resume();
+        await new Promise<void>((resolve) => wake = resolve);
+      }
+    }
+  } finally {
+    reading.stop();
+  }
+}
+// clang-format on
+
+/**
+ * A stream that may have a `destroy` method, as node's streams do.
+ */
+interface Destroyable {
+  destroy?(): void;
+}
+
+/**
+ * Control over the reading started by `readMatches`. Each method does nothing
+ * once reading has ended.
+ */
+interface Reading {
+  /** Stops reading early, without calling `onEnd`, and destroys `input`. */
+  stop(): void;
+  /**
+   * Stops passing `input` to the parser. Elements already in the chunk being
+   * parsed are still found.
+   */
+  pause(): void;
+  /** Carries on after `pause`. */
+  resume(): void;
+}
+
+/**
+ * Starts reading `input`, calling `onMatch` with each element that matches
+ * `predicate`, and `onEnd` once `input` has been read or with the first error
+ * from `input`, the parser, `predicate` or `onMatch`.
+ */
+function readMatches(
+    input: NodeJS.ReadableStream&Destroyable,
+    predicate: Predicate,
+    onMatch: (element: StreamedElement) => void,
+    onEnd: (error?: Error) => void): Reading {
+  const parser = new SAXParser({locationInfo: true});
+  const openElements = new OpenElements();
+  let done = false;
+  let paused = false;
+  let inputEnded = false;
+  const reading: Reading = {
+    stop() {
+      if (done) {
+        return;
+      }
+      done = true;
+      parser.stop();
+      input.unpipe(parser);
+      if (input.destroy !== undefined) {
+        input.destroy();
+      }
+    },
+    pause() {
+      if (!done && !paused) {
+        paused = true;
+        input.unpipe(parser);
+        input.pause();
+      }
+    },
+    resume() {
+      if (!done && paused) {
+        paused = false;
+        if (!inputEnded) {
+          input.pipe(parser);
+        }
+      }
+    },
+  };
+  const fail = (error: Error) => {
+    if (!done) {
+      reading.stop();
+      onEnd(error);
+    }
+  };
+  parser.on(
+      'startTag',
+      (tagName: string,
+       attrs: ASTAttribute[],
+       selfClosing: boolean,
+       location: StartTagLocationInfo) => {
+        const element = openElements.open(
+            tagName, selfClosing, (parent) => ({
+                                    nodeName: tagName,
+                                    tagName,
+                                    attrs,
+                                    namespaceURI: namespaceOf(tagName, parent),
+                                    parentNode: parent,
+                                    selfClosing,
+                                    __location: location,
+                                  }));
+        try {
+          if (!done && predicate(element)) {
+            onMatch(element);
+          }
+        } catch (error) {
+          fail(error);
+        }
+      });
+  parser.on('endTag', (tagName: string) => openElements.close(tagName));
+  parser.on('finish', () => {
+    if (!done) {
+      done = true;
+      onEnd();
+    }
+  });
+  parser.on('error', fail);
+  input.on('error', fail);
+  input.on('end', () => {
+    inputEnded = true;
+    // `input` can end while it isn't piped to the parser, when the end of it
+    // had already been read.
+    if (paused) {
+      parser.end();
+    }
+  });
+  input.pipe(parser);
+  return reading;
+}
+
+/**
+ * Void elements, which never have an end tag or children.
+ */
+const voidElements = new Set([
+  'area',
+  'base',
+  'basefont',
+  'bgsound',
+  'br',
+  'col',
+  'embed',
+  'frame',
+  'hr',
+  'img',
+  'input',
+  'keygen',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/**
+ * For elements whose end tag can be left out, the start tags that end them.
+ */
+const impliedEndTags = new Map<string, Set<string>>([
+  ['li', new Set(['li'])],
+  ['dt', new Set(['dt', 'dd'])],
+  ['dd', new Set(['dt', 'dd'])],
+  ['option', new Set(['option', 'optgroup'])],
+  ['tr', new Set(['tr'])],
+  ['td', new Set(['td', 'th', 'tr'])],
+  ['th', new Set(['td', 'th', 'tr'])],
+  [
+    'p',
+    new Set([
+      'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset',
+      'footer',  'form',    'h1',    'h2',         'h3',  'h4', 'h5',
+      'h6',      'header',  'hr',    'main',       'nav', 'ol', 'p',
+      'pre',     'section', 'table', 'ul'
+    ])
+  ],
+]);
+
+/**
+ * The stack of elements whose start tag has been seen but not their end tag.
+ */
+class OpenElements {
+  private readonly stack: StreamedElement[] = [];
+
+  /**
+   * Ends any elements that a `tagName` start tag implicitly ends, then
+   * creates the new element with `create` and opens it.
+   */
+  open(
+      tagName: string,
+      selfClosing: boolean,
+      create: (parent: StreamedElement|undefined) => StreamedElement):
+      StreamedElement {
+    let current = this.current();
+    while (current !== undefined) {
+      const endedBy = impliedEndTags.get(current.tagName);
+      if (endedBy === undefined || !endedBy.has(tagName)) {
+        break;
+      }
+      this.stack.pop();
+      current = this.current();
+    }
+    const element = create(current);
+    const isForeign = element.namespaceURI !== namespaces.html;
+    if (!voidElements.has(tagName) && !(selfClosing && isForeign)) {
+      this.stack.push(element);
+    }
+    return element;
+  }
+
+  /**
+   * Closes the innermost open `tagName` element and any elements inside it.
+   * End tags with no open element are ignored.
+   */
+  close(tagName: string) {
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      if (this.stack[i].tagName === tagName) {
+        this.stack.length = i;
+        return;
+      }
+    }
+  }
+
+  private current(): StreamedElement|undefined {
+    return this.stack[this.stack.length - 1];
+  }
+}
+
+/**
+ * The namespace that the HTML parser would put a `tagName` element in when it
+ * is found inside `parent`.
+ */
+function namespaceOf(tagName: string, parent: StreamedElement|undefined) {
+  if (tagName === 'svg') {
+    return namespaces.svg;
+  }
+  if (tagName === 'math') {
+    return namespaces.mathml;
+  }
+  if (parent === undefined || parent.tagName === 'foreignobject') {
+    return namespaces.html;
+  }
+  return parent.namespaceURI;
+}
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('NodeCollection', () => {
+  const $ = dom5.$;
+  let fragment: parse5.ASTNode;
+
+  setup(() => {
+    fragment = parse5.parseFragment(
+        '<ul id="list"><li class="a">one</li><li class="b">two</li></ul>' +
+        '<p id="para">text <b>bold</b></p>' +
+        '<template><li class="a">in template</li></template>');
+  });
+
+  function ids(nodes: Iterable<parse5.ASTNode>) {
+    return [...nodes].map(
+        (node) => dom5.getAttribute(node, 'id') ||
+            dom5.getAttribute(node, 'class') || node.nodeName);
+  }
+
+  function innerHtml(selector: string) {
+    return parse5.serialize($(fragment).find(selector).toArray()[0]);
+  }
+
+  test('wraps nodes and iterables of nodes', () => {
+    assert.deepEqual($(fragment).toArray(), [fragment]);
+    const items = dom5.queryAll(fragment, dom5.predicates.hasTagName('li'));
+    const collection = $(items);
+    assert.deepEqual(ids(collection), ['a', 'b']);
+    assert.deepEqual(ids(collection), ['a', 'b']);
+  });
+
+  test('find', () => {
+    assert.deepEqual(ids($(fragment).find('li')), ['a', 'b']);
+    assert.deepEqual(ids($(fragment).find('ul > .b')), ['b']);
+    assert.deepEqual(
+        ids($(fragment).find(dom5.predicates.hasTagName('b'))), ['b']);
+    assert.deepEqual(
+        ids($(fragment, dom5.childNodesIncludeTemplate).find('template > li')),
+        ['a']);
+    const ul = $(fragment).find('ul');
+    assert.deepEqual(ids(ul.find('ul')), [], 'excludes the nodes themselves');
+    assert.deepEqual(ids($([fragment, fragment]).find('ul')), ['list']);
+  });
+
+  test('filter, closest, parent, children and first', () => {
+    const items = $(fragment).find('li');
+    assert.deepEqual(ids(items.filter('.b')), ['b']);
+    assert.deepEqual(ids(items.closest('ul')), ['list']);
+    assert.deepEqual(ids(items.closest('li')), ['a', 'b']);
+    assert.deepEqual(ids(items.parent()), ['list']);
+    assert.deepEqual(ids($(fragment).children()), ['list', 'para', 'template']);
+    assert.deepEqual(ids(items.first()), ['a']);
+    assert.deepEqual(ids(items.filter('.c').first()), []);
+  });
+
+  test('parents lead out of template content', () => {
+    const items = $(fragment, dom5.childNodesIncludeTemplate).find('li');
+    assert.deepEqual(ids(items.parent()), ['list', 'template']);
+    assert.deepEqual(ids(items.closest('template')), ['template']);
+    assert.deepEqual(ids(items.filter('template > li')), ['a']);
+
+    const template = fragment.childNodes![2];
+    const li = dom5.query(
+        template,
+        dom5.predicates.hasTagName('li'),
+        dom5.childNodesIncludeTemplate)!;
+    dom5.append(fragment, li);
+    assert.deepEqual(ids(items.parent()), ['list', '#document-fragment']);
+  });
+
+  test('traversals are lazy', () => {
+    const items = $(fragment).find('li');
+    dom5.append(
+        dom5.query(fragment, dom5.predicates.hasTagName('ul'))!,
+        dom5.constructors.element('li'));
+    assert.deepEqual(ids(items), ['a', 'b', 'li']);
+  });
+
+  test('attr and text', () => {
+    const items = $(fragment).find('li');
+    assert.equal(items.attr('class'), 'a');
+    assert.isNull($(fragment).attr('class'));
+    assert.equal(items.text(), 'onetwo');
+    assert.equal($(fragment).find('#para').text(), 'text bold');
+
+    items.attr('title', 'x').text('changed');
+    assert.equal(
+        innerHtml('ul'),
+        '<li class="a" title="x">changed</li>' +
+            '<li class="b" title="x">changed</li>');
+  });
+
+  test('remove', () => {
+    $(fragment).find('li').remove();
+    $(fragment).find('b').remove();
+    assert.equal(
+        parse5.serialize(fragment),
+        '<ul id="list"></ul><p id="para">text </p>' +
+            '<template><li class="a">in template</li></template>');
+  });
+
+  test('replaceWith', () => {
+    $(fragment).find('li').replaceWith(dom5.constructors.element('hr'));
+    assert.equal(innerHtml('ul'), '<hr><hr>');
+    $(fragment).find('hr').replaceWith(
+        (hr) => dom5.constructors.text(
+            String(hr.parentNode!.childNodes!.indexOf(hr))));
+    assert.equal(innerHtml('ul'), '01');
+  });
+
+  test('append', () => {
+    $(fragment).find('li').append(dom5.constructors.element('br'));
+    assert.equal(
+        innerHtml('ul'),
+        '<li class="a">one<br></li><li class="b">two<br></li>');
+    $(fragment).find('p').append(() => dom5.constructors.comment('end'));
+    assert.equal(innerHtml('p'), 'text <b>bold</b><!--end-->');
+  });
+
+  test('results interoperate with other functions', () => {
+    for (const item of $(fragment).find('li')) {
+      dom5.setAttribute(item, 'data-seen', '');
+    }
+    const seen = dom5.queryAll(fragment, dom5.predicates.hasAttr('data-seen'));
+    assert.equal([...seen].length, 2);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('description', () => {
+  const p = dom5.predicates;
+
+  test('describes built-in predicates', () => {
+    const fn = p.AND(p.hasTagName('link'), p.hasAttrValue('rel', 'import'));
+    assert.equal(
+        dom5.describe(fn),
+        'AND(hasTagName("link"), hasAttrValue("rel", "import"))');
+    assert.equal(dom5.getDescription(fn).name, 'AND');
+    assert.equal(
+        dom5.describe(p.NOT(p.hasMatchingTagName(/^h\d$/))),
+        'NOT(hasMatchingTagName(/^h\\d$/))');
+    assert.equal(
+        dom5.describe(p.hasChild(p.isFirstChild, {skipComments: true})),
+        'hasChild(isFirstChild, {"skipComments":true})');
+    assert.equal(
+        dom5.describe(dom5.hasSpaceSeparatedAttrValue('class', 'a')),
+        'hasSpaceSeparatedAttrValue("class", "a")');
+  });
+
+  test('falls back to function names', () => {
+    function isCustomElement(node: parse5.ASTNode) {
+      return !!node.tagName && node.tagName.indexOf('-') !== -1;
+    }
+    assert.equal(
+        dom5.describe(p.OR(isCustomElement, dom5.isTextNode)),
+        'OR(isCustomElement, isTextNode)');
+    assert.equal(
+        dom5.describe(p.AND(function() {
+          return true;
+        })),
+        'AND(anonymous)');
+  });
+
+  test('describes predicates that take a root', () => {
+    const doc = parse5.parse('<dom-module></dom-module>');
+    const fn =
+        p.parentMatchesIncludingTemplates(p.hasTagName('dom-module'), doc);
+    assert.equal(
+        dom5.describe(fn),
+        'parentMatchesIncludingTemplates(hasTagName("dom-module"), ' +
+            '<#document>)');
+    assert.equal(
+        dom5.describeAsSelector(fn),
+        ':parentMatchesIncludingTemplates(hasTagName("dom-module"), ' +
+            '<#document>)');
+    const div = dom5.constructors.element('div');
+    assert.equal(
+        dom5.describe(p.parentMatchesIncludingTemplates(dom5.isElement, div)),
+        'parentMatchesIncludingTemplates(isElement, <div>)');
+    const circular: {self?: {}} = {};
+    circular.self = circular;
+    assert.equal(
+        dom5.describe(dom5.setDescription(() => true, 'custom', [circular])),
+        'custom({...})');
+  });
+
+  test('describes compiled selectors', () => {
+    const fn = dom5.compileSelector('dom-module > template');
+    assert.equal(dom5.describe(fn), 'compileSelector("dom-module > template")');
+    assert.equal(dom5.describeAsSelector(fn), 'dom-module > template');
+  });
+
+  test('renders predicates as selectors', () => {
+    const cases: Array<[dom5.Predicate, string]> = [
+      [
+        p.AND(p.hasTagName('link'), p.hasAttrValue('rel', 'import')),
+        'link[rel="import"]'
+      ],
+      [
+        p.AND(p.hasClass('a'), p.hasTagName('div'), p.hasAttr('hidden')),
+        'div.a[hidden]'
+      ],
+      [
+        p.OR(p.hasTagName('a'), p.hasAttrValuePrefix('href', 'x', true)),
+        'a, [href^="x" i]'
+      ],
+      [
+        p.AND(p.hasTagName('li'), p.isNthChild(2, -1), p.isLastChild),
+        'li:nth-child(2n-1):last-child'
+      ],
+      [p.AND(p.hasTagName('b'), p.parentIs(p.hasTagName('p'))), 'p > b'],
+      [
+        p.AND(
+            p.hasTagName('b'),
+            p.parentMatches(p.AND(
+                p.hasTagName('p'),
+                p.previousSiblingMatches(
+                    p.hasClass('x'), {elementsOnly: true})))),
+        '.x + p b'
+      ],
+      [
+        p.AND(p.hasTagName('p'), p.anyPreviousSiblingMatches(p.hasClass('x'))),
+        'p:anyPreviousSiblingMatches(hasClass("x"))'
+      ],
+      [p.NOT(p.OR(p.hasTagName('a'), p.hasTagName('b'))), ':not(a, b)'],
+      [p.AND(dom5.isElement, p.hasTextValue('Hi')), ':hasTextValue("Hi")'],
+      [p.AND(dom5.isElement), '*'],
+    ];
+    for (const [predicate, expected] of cases) {
+      assert.equal(dom5.describeAsSelector(predicate), expected);
+    }
+  });
+
+  test('escapes names and values in selectors', () => {
+    const cases: Array<[dom5.Predicate, string]> = [
+      [p.hasClass('a b'), '.a\\ b'],
+      [p.hasTagName('1x'), '\\31 x'],
+      [p.hasAttr('data:x'), '[data\\:x]'],
+      [p.hasAttrValue('title', 'say "hi"\n'), '[title="say \\"hi\\"\\a "]'],
+      [p.hasClass(''), ':hasClass("")'],
+    ];
+    for (const [predicate, expected] of cases) {
+      assert.equal(dom5.describeAsSelector(predicate), expected);
+    }
+    const selector = dom5.describeAsSelector(p.hasAttrValue('title', 'a"b'));
+    const fragment = parse5.parseFragment('<p title=\'a"b\'></p>');
+    assert.isTrue(dom5.compileSelector(selector)(fragment.childNodes![0]));
+  });
+});
@@ -48,6 +48,17 @@ suite('dom5', () => {
             doc.childNodes![1].childNodes![1].childNodes!.slice(-1)[0];
         assert(dom5.isCommentNode(commentEnd));
       });
+
+      test('type guards narrow node types', () => {
+        const nodes = doc.childNodes![1].childNodes![1].childNodes!;
+        const tagNames = nodes.filter(dom5.isElement).map((el) => el.tagName);
+        assert.deepEqual(tagNames, ['div', 'div']);
+        const comments = nodes.filter(dom5.isCommentNode).map((c) => c.data);
+        assert.deepEqual(comments, [' comment ']);
+        const values = dom5.queryAll(doc, dom5.predicates.hasAttr('bar'))
+                           .map((el) => el.attrs[0].value);
+        assert.deepEqual(values, ['b1', 'b3 b4']);
+      });
     });
 
     suite('getAttribute', () => {
@@ -422,6 +433,150 @@ suite('dom5', () => {
 
     });
 
+    suite('hierarchy checks', () => {
+      let dom: parse5.ASTNode;
+      let div: parse5.ASTNode;
+      let text: parse5.ASTNode;
+
+      setup(() => {
+        dom = parse5.parseFragment('<div><p></p></div>text');
+        [div, text] = dom.childNodes!;
+      });
+
+      test('cannot insert a node into itself or its descendants', () => {
+        const p = div.childNodes![0];
+        assert.throws(
+            () => dom5.append(p, div),
+            dom5.HierarchyRequestError,
+            /into itself or one of its descendants/);
+        assert.throws(() => dom5.append(div, div), dom5.HierarchyRequestError);
+        assert.throws(() => dom5.replace(p, div), dom5.HierarchyRequestError);
+        const template =
+            parse5.parseFragment('<template><b></b></template>').childNodes![0];
+        const b = dom5.query(
+            template,
+            dom5.predicates.hasTagName('b'),
+            dom5.childNodesIncludeTemplate)!;
+        assert.throws(
+            () => dom5.append(b, template), dom5.HierarchyRequestError);
+        assert.equal(parse5.serialize(dom), '<div><p></p></div>text');
+      });
+
+      test('finds cycles through template content in a fresh parse', () => {
+        const fragment = parse5.parseFragment(
+            '<template><template><b></b></template></template>');
+        const outer = fragment.childNodes![0];
+        const content = (template: parse5.ASTNode) =>
+            parse5.treeAdapters.default.getTemplateContent(template);
+        const inner = content(outer).childNodes![0];
+        const b = content(inner).childNodes![0];
+        assert.throws(
+            () => dom5.append(content(outer), outer),
+            dom5.HierarchyRequestError);
+        assert.throws(() => dom5.append(b, outer), dom5.HierarchyRequestError);
+        assert.throws(
+            () => dom5.insertBefore(content(inner), b, inner),
+            dom5.HierarchyRequestError);
+        dom5.append(b, dom5.constructors.element('i'));
+      });
+
+      test('cannot insert into text or comment nodes', () => {
+        assert.throws(
+            () => dom5.append(text, dom5.constructors.element('b')),
+            dom5.HierarchyRequestError,
+            /into a #text node/);
+        assert.throws(
+            () => dom5.append(
+                dom5.constructors.comment('c'), dom5.constructors.text('t')),
+            dom5.HierarchyRequestError,
+            /into a #comment node/);
+      });
+
+      test('cannot insert documents or misplaced doctypes', () => {
+        const doc = parse5.parse('<!doctype html><p>');
+        assert.throws(
+            () => dom5.append(div, doc),
+            dom5.HierarchyRequestError,
+            /Cannot insert a #document node/);
+        assert.throws(
+            () => dom5.append(div, doc.childNodes![0]),
+            dom5.HierarchyRequestError,
+            /doctype anywhere but into a document/);
+      });
+
+      test('keeps documents to one doctype and element', () => {
+        const doc = parse5.parse('<!doctype html><p>');
+        const [doctype, html] = doc.childNodes!;
+        assert.throws(
+            () => dom5.append(doc, dom5.constructors.element('html')),
+            dom5.HierarchyRequestError,
+            /second element/);
+        assert.throws(
+            () => dom5.append(doc, dom5.constructors.text('t')),
+            dom5.HierarchyRequestError,
+            /text node into a document/);
+        assert.throws(
+            () => dom5.insertBefore(doc, doctype, dom5.cloneNode(doctype)),
+            dom5.HierarchyRequestError,
+            /second doctype/);
+        dom5.remove(html);
+        assert.throws(
+            () => dom5.insertBefore(doc, doctype, html),
+            dom5.HierarchyRequestError,
+            /element before the doctype/);
+        dom5.append(doc, html);
+        dom5.remove(doctype);
+        assert.throws(
+            () => dom5.insertAfter(doc, html, doctype),
+            dom5.HierarchyRequestError,
+            /doctype after the element/);
+        dom5.insertBefore(doc, html, doctype);
+        dom5.replace(html, dom5.constructors.element('html'));
+        dom5.append(doc, dom5.constructors.comment('end'));
+        assert.equal(
+            parse5.serialize(doc), '<!DOCTYPE html><html></html><!--end-->');
+      });
+
+      test('the reference node must be a child of the parent', () => {
+        const p = div.childNodes![0];
+        const b = dom5.constructors.element('b');
+        assert.throws(
+            () => dom5.insertBefore(dom, p, b),
+            dom5.NotFoundError,
+            /insert before is not a child/);
+        assert.throws(
+            () => dom5.insertAfter(dom, p, b),
+            dom5.NotFoundError,
+            /insert after is not a child/);
+        assert.throws(
+            () => dom5.replace(dom5.constructors.element('i'), b),
+            dom5.NotFoundError,
+            /has no parent/);
+        assert.equal(parse5.serialize(dom), '<div><p></p></div>text');
+      });
+
+      test('errors have names', () => {
+        try {
+          dom5.append(text, div);
+          assert.fail();
+        } catch (e) {
+          assert.instanceOf(e, Error);
+          assert.equal(e.name, 'HierarchyRequestError');
+        }
+      });
+
+      test('can be turned off', () => {
+        const b = dom5.constructors.element('b');
+        dom5.append(text, b, {validate: false});
+        assert.equal(b.parentNode, text);
+        const i = dom5.constructors.element('i');
+        dom5.insertBefore(div, text, i, {validate: false});
+        assert.equal(i.parentNode, div);
+        dom5.replace(b, dom5.constructors.element('u'), {validate: false});
+        assert.isUndefined(b.parentNode);
+      });
+    });
+
     suite('cloneNode', () => {
 
       test('clones a node', () => {
@@ -496,6 +651,54 @@ suite('dom5', () => {
       assert.isFalse(fn(frag));
     });
 
+    test('hasSpaceSeparatedAttrValue splits on any whitespace', () => {
+      const div =
+          parse5.parseFragment('<div class="a\tb\n c"></div>').childNodes![0];
+      assert.isTrue(dom5.predicates.hasClass('b')(div));
+      assert.isTrue(dom5.predicates.hasClass('c')(div));
+      assert.isFalse(dom5.predicates.hasClass('a b')(div));
+      assert.isTrue(
+          dom5.predicates.hasSpaceSeparatedAttrValue('class', 'B', true)(div));
+    });
+
+    test('hasAttrValue with caseInsensitive', () => {
+      assert.isFalse(dom5.predicates.hasAttrValue('id', 'A')(frag));
+      assert.isTrue(dom5.predicates.hasAttrValue('id', 'A', true)(frag));
+    });
+
+    test('attribute value operators', () => {
+      const link =
+          parse5
+              .parseFragment('<link href="Polymer/polymer.html" lang="en-US">')
+              .childNodes![0];
+      const p = dom5.predicates;
+      assert.isTrue(p.hasAttrValuePrefix('href', 'Polymer/')(link));
+      assert.isFalse(p.hasAttrValuePrefix('href', 'polymer/')(link));
+      assert.isTrue(p.hasAttrValuePrefix('href', 'polymer/', true)(link));
+      assert.isFalse(p.hasAttrValuePrefix('href', '')(link));
+      assert.isTrue(p.hasAttrValueSuffix('href', '.html')(link));
+      assert.isFalse(p.hasAttrValueSuffix('href', '.HTML')(link));
+      assert.isTrue(p.hasAttrValueSuffix('href', '.HTML', true)(link));
+      assert.isTrue(p.hasAttrValueSubstring('href', 'mer/pol')(link));
+      assert.isFalse(p.hasAttrValueSubstring('href', '')(link));
+      assert.isFalse(p.hasAttrValueSubstring('title', 'a')(link));
+      assert.isTrue(p.hasDashSeparatedAttrValue('lang', 'en')(link));
+      assert.isTrue(p.hasDashSeparatedAttrValue('lang', 'en-US')(link));
+      assert.isFalse(p.hasDashSeparatedAttrValue('lang', 'e')(link));
+      assert.isTrue(p.hasDashSeparatedAttrValue('lang', 'EN', true)(link));
+    });
+
+    test('hasMatchingAttrValue', () => {
+      const p = dom5.predicates;
+      assert.isTrue(p.hasMatchingAttrValue('class', /^b\s/)(frag));
+      assert.isFalse(p.hasMatchingAttrValue('class', /^B\s/)(frag));
+      assert.isTrue(p.hasMatchingAttrValue('class', /^B\s/, true)(frag));
+      assert.isFalse(p.hasMatchingAttrValue('hidden', /.*/)(frag));
+      const global = p.hasMatchingAttrValue('id', /a/g);
+      assert.isTrue(global(frag));
+      assert.isTrue(global(frag));
+    });
+
     test('hasClass', () => {
       let fn = dom5.predicates.hasClass('b');
       assert.isFunction(fn);
@@ -517,6 +720,124 @@ suite('dom5', () => {
       assert.isTrue(fn(commentNode));
     });
 
+    suite('text predicates', () => {
+      const p = dom5.predicates;
+      let button: parse5.ASTNode;
+      setup(() => {
+        const text = '<p><button>\n  Save   <b>all</b>\n changes </button></p>';
+        button = parse5.parseFragment(text).childNodes![0].childNodes![0];
+      });
+
+      test('containsText', () => {
+        assert.isTrue(p.containsText('Save')(button));
+        assert.isTrue(p.containsText('Save')(button.childNodes![0]));
+        assert.isTrue(p.containsText('all')(button));
+        assert.isFalse(p.containsText('save')(button));
+        assert.isFalse(p.containsText('Save all')(button));
+        assert.isTrue(
+            p.containsText('Save all', {normalizeWhitespace: true})(button));
+      });
+
+      test('hasTextMatching', () => {
+        assert.isTrue(p.hasTextMatching(/save/i)(button));
+        assert.isFalse(p.hasTextMatching(/^Save/)(button));
+        const fn = p.hasTextMatching(/^Save all changes$/g, {
+          normalizeWhitespace: true,
+        });
+        assert.isTrue(fn(button));
+        assert.isTrue(fn(button), 'lastIndex is reset between calls');
+      });
+
+      test('normalizeWhitespace', () => {
+        const options = {normalizeWhitespace: true};
+        assert.isTrue(p.hasTextValue('Save all changes', options)(button));
+        assert.isTrue(p.hasTextValue(' Save all\tchanges', options)(button));
+        assert.isFalse(p.hasTextValue('Save all changes')(button));
+      });
+
+      test('ownTextOnly', () => {
+        const options = {normalizeWhitespace: true, ownTextOnly: true};
+        const fn = p.hasTextValue('Save changes', options);
+        const matches = dom5.queryAll(button.parentNode!, fn);
+        assert.deepEqual(matches, [button]);
+        assert.isFalse(p.containsText('all', options)(button));
+        assert.isFalse(p.containsText('Save', options)(button.childNodes![0]));
+      });
+    });
+
+    suite('structural predicates', () => {
+      const p = dom5.predicates;
+      let list: parse5.ASTNode;
+      let items: parse5.ASTNode[];
+
+      setup(() => {
+        list =
+            parse5
+                .parseFragment(
+                    '<ul> <li>a</li><!-- c --><p></p><li></li> <li> </li></ul>')
+                .childNodes![0];
+        items = list.childNodes!.filter(dom5.isElement);
+      });
+
+      test('first, last and only child', () => {
+        assert.deepEqual(items.map(p.isFirstChild), [1, 0, 0, 0].map(Boolean));
+        assert.deepEqual(items.map(p.isLastChild), [0, 0, 0, 1].map(Boolean));
+        assert.isFalse(p.isFirstChild(list.childNodes![0]));
+        assert.isFalse(p.isOnlyChild(items[0]));
+        assert.isTrue(p.isOnlyChild(list));
+      });
+
+      test('nth-child', () => {
+        assert.deepEqual(
+            items.map(p.isNthChild(2, 1)), [1, 0, 1, 0].map(Boolean));
+        assert.deepEqual(
+            items.map(p.isNthChild(0, 2)), [0, 1, 0, 0].map(Boolean));
+        assert.deepEqual(
+            items.map(p.isNthChild(-1, 2)), [1, 1, 0, 0].map(Boolean));
+        assert.deepEqual(
+            items.map(p.isNthLastChild(2, 0)), [1, 0, 1, 0].map(Boolean));
+      });
+
+      test('of-type', () => {
+        assert.deepEqual(items.map(p.isFirstOfType), [1, 1, 0, 0].map(Boolean));
+        assert.deepEqual(items.map(p.isLastOfType), [0, 1, 0, 1].map(Boolean));
+        assert.deepEqual(items.map(p.isOnlyOfType), [0, 1, 0, 0].map(Boolean));
+        assert.deepEqual(
+            items.map(p.isNthOfType(0, 2)), [0, 0, 1, 0].map(Boolean));
+        assert.deepEqual(
+            items.map(p.isNthLastOfType(1, 2)), [1, 0, 1, 0].map(Boolean));
+      });
+
+      test('empty', () => {
+        assert.deepEqual(items.map(p.isEmpty), [0, 1, 1, 0].map(Boolean));
+        const template =
+            parse5.parseFragment('<template><b></b></template>').childNodes![0];
+        assert.isTrue(p.isEmpty(template));
+      });
+
+      test('root', () => {
+        const doc = parse5.parse('<div></div>');
+        const html = doc.childNodes![0];
+        assert.isTrue(p.isRoot(html));
+        assert.isFalse(p.isRoot(doc));
+        assert.isFalse(p.isRoot(html.childNodes![0]));
+        assert.isFalse(p.isRoot(list));
+      });
+
+      test('inside template content', () => {
+        const template =
+            parse5.parseFragment('<template> <b></b><i></i></template>')
+                .childNodes![0];
+        const content =
+            parse5.treeAdapters.default.getTemplateContent(template);
+        const [, b, i] = content.childNodes!;
+        assert.isTrue(p.isFirstChild(b));
+        assert.isTrue(p.isLastChild(i));
+        assert.isTrue(p.isNthChild(0, 2)(i));
+        assert.isFalse(p.isRoot(b));
+      });
+    });
+
     test('AND', () => {
       const preds = [
         dom5.predicates.hasTagName('div'),
@@ -573,10 +894,185 @@ suite('dom5', () => {
       assert.isTrue(
           fn(frag.childNodes![0].childNodes![0].childNodes![0]));  // c
     });
+
+    test('parentMatchesIncludingTemplates', () => {
+      const frag = parse5.parseFragment(
+          '<div class="a"><template><span></span></template></div>');
+      const span = dom5.query(
+          frag,
+          dom5.predicates.hasTagName('span'),
+          dom5.childNodesIncludeTemplate)!;
+      const hasClassA = dom5.predicates.hasClass('a');
+      assert.isFalse(dom5.predicates.parentMatches(hasClassA)(span));
+      assert.isTrue(dom5.predicates.parentMatchesIncludingTemplates(
+          hasClassA, frag)(span));
+      assert.isFalse(dom5.predicates.parentMatchesIncludingTemplates(
+          dom5.predicates.hasTagName('span'), frag)(span));
+    });
+
+    suite('relationship predicates', () => {
+      const p = dom5.predicates;
+      let div: parse5.ASTNode;
+      let a: parse5.ASTNode, b: parse5.ASTNode, c: parse5.ASTNode;
+
+      setup(() => {
+        div =
+            parse5
+                .parseFragment(
+                    '<div><p class="a"><b></b></p>\n<!-- x --><p class="b"></p>' +
+                    'text<p class="c"></p></div>')
+                .childNodes![0];
+        [a, b, c] = div.childNodes!.filter(dom5.isElement);
+      });
+
+      test('parentIs', () => {
+        const fn = p.parentIs(p.hasTagName('p'));
+        assert.isTrue(fn(a.childNodes![0]));
+        assert.isFalse(fn(a));
+        assert.isFalse(p.parentIs(p.hasTagName('div'))(a.childNodes![0]));
+      });
+
+      test('parentIs and parentMatches take a getParentNode', () => {
+        const [getChildNodes, getParentNode] =
+            dom5.trackParentNodes(dom5.childNodesIncludeTemplate);
+        const template =
+            parse5.parseFragment('<template><i></i></template>').childNodes![0];
+        dom5.append(div, template);
+        const i = dom5.query(div, p.hasTagName('i'), getChildNodes)!;
+        assert.isFalse(p.parentIs(p.hasTagName('template'))(i));
+        assert.isTrue(p.parentIs(p.hasTagName('template'), getParentNode)(i));
+        assert.isTrue(p.parentMatches(p.hasTagName('div'), getParentNode)(i));
+      });
+
+      test('hasChild and hasDescendant', () => {
+        assert.isTrue(p.hasChild(p.hasClass('a'))(div));
+        assert.isFalse(p.hasChild(p.hasTagName('b'))(div));
+        assert.isTrue(p.hasDescendant(p.hasTagName('b'))(div));
+        assert.isFalse(p.hasDescendant(p.hasTagName('div'))(div));
+        assert.isTrue(p.hasChild(dom5.isCommentNode)(div));
+        assert.isFalse(
+            p.hasChild(dom5.isCommentNode, {skipComments: true})(div));
+        assert.isFalse(
+            p.hasDescendant(dom5.isCommentNode, {skipComments: true})(div));
+      });
+
+      test('previousSiblingMatches', () => {
+        assert.isFalse(p.previousSiblingMatches(p.hasClass('a'))(b));
+        assert.isFalse(
+            p.previousSiblingMatches(p.hasClass('a'), {skipComments: true})(b));
+        assert.isTrue(p.previousSiblingMatches(
+            p.hasClass('a'), {skipComments: true, skipWhitespace: true})(b));
+        assert.isFalse(p.previousSiblingMatches(
+            p.hasClass('b'), {skipComments: true, skipWhitespace: true})(c));
+        assert.isFalse(p.previousSiblingMatches(dom5.isElement)(a));
+        assert.isTrue(
+            p.previousSiblingMatches(p.hasClass('b'), {elementsOnly: true})(c));
+      });
+
+      test('nextSiblingMatches', () => {
+        assert.isTrue(p.nextSiblingMatches(dom5.isTextNode)(a));
+        assert.isTrue(p.nextSiblingMatches(
+            p.hasClass('b'), {skipComments: true, skipWhitespace: true})(a));
+        assert.isFalse(p.nextSiblingMatches(dom5.isElement)(c));
+      });
+
+      test('any sibling', () => {
+        assert.isTrue(p.anyPreviousSiblingMatches(p.hasClass('a'))(c));
+        assert.isFalse(p.anyPreviousSiblingMatches(p.hasClass('c'))(a));
+        assert.isTrue(p.anyNextSiblingMatches(p.hasClass('c'))(a));
+        assert.isFalse(p.anyNextSiblingMatches(p.hasClass('a'))(c));
+        assert.isTrue(p.anySiblingMatches(p.hasClass('a'))(b));
+        assert.isTrue(p.anySiblingMatches(p.hasClass('c'))(b));
+        assert.isFalse(p.anySiblingMatches(p.hasClass('b'))(b));
+        assert.isFalse(
+            p.anySiblingMatches(dom5.isCommentNode, {skipComments: true})(b));
+      });
+    });
   });
 
 
 
+  suite('Namespaces', () => {
+    const ns = dom5.namespaces;
+    let svg: parse5.ASTNode;
+    let use: parse5.ASTNode;
+
+    setup(() => {
+      svg = parse5
+                .parseFragment(
+                    '<svg viewBox="0 0 1 1"><use xlink:href="#a"></use>' +
+                    '<foreignObject></foreignObject></svg>')
+                .childNodes![0];
+      use = svg.childNodes![0];
+    });
+
+    test('getAttribute matches prefixed names', () => {
+      assert.equal(dom5.getAttribute(use, 'xlink:href'), '#a');
+      assert.equal(dom5.getAttribute(use, 'href'), null);
+      assert.isTrue(dom5.hasAttribute(use, 'xlink:href'));
+    });
+
+    test('setAttribute preserves attribute prefixes', () => {
+      dom5.setAttribute(use, 'xlink:href', '#b');
+      assert.equal(use.attrs.length, 1);
+      assert.equal(
+          parse5.serialize(svg),
+          '<use xlink:href="#b"></use><foreignObject></foreignObject>');
+    });
+
+    test('getAttributeNS', () => {
+      assert.equal(dom5.getAttributeNS(use, ns.xlink, 'href'), '#a');
+      assert.equal(dom5.getAttributeNS(use, null, 'href'), null);
+      assert.equal(dom5.getAttributeNS(svg, null, 'viewBox'), '0 0 1 1');
+      assert.isTrue(dom5.hasAttributeNS(use, ns.xlink, 'href'));
+      assert.isFalse(dom5.hasAttributeNS(use, ns.svg, 'href'));
+    });
+
+    test('setAttributeNS', () => {
+      dom5.setAttributeNS(use, ns.xlink, 'xlink:href', '#b');
+      dom5.setAttributeNS(use, ns.xlink, 'xlink:title', 'B');
+      dom5.setAttributeNS(use, null, 'href', '#c');
+      assert.equal(dom5.getAttributeNS(use, ns.xlink, 'href'), '#b');
+      assert.equal(dom5.getAttribute(use, 'href'), '#c');
+      assert.equal(
+          parse5.serialize(svg),
+          '<use xlink:href="#b" xlink:title="B" href="#c"></use>' +
+              '<foreignObject></foreignObject>');
+      assert.throws(() => dom5.setAttributeNS(use, null, 'xlink:show', 'new'));
+    });
+
+    test('removeAttributeNS', () => {
+      dom5.removeAttributeNS(use, null, 'href');
+      assert.equal(use.attrs.length, 1);
+      dom5.removeAttributeNS(use, ns.xlink, 'href');
+      assert.equal(use.attrs.length, 0);
+    });
+
+    test('hasNamespace', () => {
+      const fn = dom5.predicates.hasNamespace(ns.svg);
+      assert.isTrue(fn(svg));
+      assert.isTrue(fn(use));
+      assert.isFalse(fn(dom5.constructors.element('div')));
+      assert.isTrue(dom5.predicates.hasNamespace(ns.html)(
+          dom5.constructors.element('div')));
+    });
+
+    test('hasTagNameNS', () => {
+      const foreignObject = svg.childNodes![1];
+      const html = dom5.constructors.element('foreignObject');
+      assert.isTrue(
+          dom5.predicates.hasTagNameNS(ns.svg, 'foreignObject')(foreignObject));
+      assert.isFalse(
+          dom5.predicates.hasTagNameNS(ns.svg, 'foreignobject')(foreignObject));
+      assert.isTrue(
+          dom5.predicates.hasTagNameNS('*', 'foreignObject')(foreignObject));
+      assert.isFalse(
+          dom5.predicates.hasTagNameNS(ns.svg, 'foreignObject')(html));
+      assert.isTrue(
+          dom5.predicates.hasTagNameNS(ns.html, 'FOREIGNOBJECT')(html));
+    });
+  });
+
   suite('Constructors', () => {
 
     test('text node', () => {
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('DocumentIndex', () => {
+  const docText = `<!doctype html>
+<div id="main" class="a b"><p class="b" hidden>one</p><P class="a">two</P></div>
+<template><span id="inner" class="a"></span></template>
+<p id="main">duplicate id</p>`;
+  let doc: parse5.ASTNode;
+  let index: dom5.DocumentIndex;
+
+  setup(() => {
+    doc = parse5.parse(docText);
+    index = new dom5.DocumentIndex(doc);
+  });
+
+  function ids(elements: ReadonlyArray<dom5.Element>) {
+    return elements.map(
+        (element) =>
+            dom5.getAttribute(element, 'id') || dom5.getTextContent(element));
+  }
+
+  test('getElementById returns the first element with the id', () => {
+    assert.equal(
+        index.getElementById('main'),
+        dom5.query(doc, dom5.predicates.hasTagName('div')));
+    assert.isNull(index.getElementById('inner'));
+    assert.isNull(index.getElementById('missing'));
+  });
+
+  test('getElementsByTagName', () => {
+    assert.deepEqual(
+        ids(index.getElementsByTagName('p')), ['one', 'two', 'main']);
+    assert.deepEqual(ids(index.getElementsByTagName('DIV')), ['main']);
+    assert.deepEqual(
+        index.getElementsByTagName('*'),
+        [...dom5.queryAll(doc, dom5.isElement)]);
+    assert.deepEqual(index.getElementsByTagName('article'), []);
+  });
+
+  test('getElementsByClassName', () => {
+    assert.deepEqual(ids(index.getElementsByClassName('b')), ['main', 'one']);
+    assert.deepEqual(ids(index.getElementsByClassName(' a  b ')), ['main']);
+    assert.deepEqual(ids(index.getElementsByClassName('b c')), []);
+    assert.deepEqual(index.getElementsByClassName(''), []);
+  });
+
+  test('getElementsByAttributeName', () => {
+    assert.deepEqual(ids(index.getElementsByAttributeName('HIDDEN')), ['one']);
+  });
+
+  test('indexes template content with childNodesIncludeTemplate', () => {
+    index = new dom5.DocumentIndex(doc, dom5.childNodesIncludeTemplate);
+    const inner = index.getElementById('inner')!;
+    assert.equal(inner.tagName, 'span');
+    assert.deepEqual(ids(index.getElementsByClassName('a')), [
+      'main',
+      'two',
+      'inner',
+    ]);
+
+    dom5.removeAttribute(inner, 'class');
+    assert.deepEqual(ids(index.getElementsByClassName('a')), ['main', 'two']);
+  });
+
+  test('is kept up to date when the tree is modified', () => {
+    const main = index.getElementById('main')!;
+    assert.isFalse(index.isStale);
+
+    dom5.setAttribute(main, 'id', 'renamed');
+    assert.isTrue(index.isStale);
+    assert.equal(
+        dom5.getTextContent(index.getElementById('main')!), 'duplicate id');
+    assert.equal(index.getElementById('renamed'), main);
+    assert.isFalse(index.isStale);
+
+    const em = dom5.constructors.element('em');
+    dom5.setAttribute(em, 'class', 'b');
+    dom5.append(main, em);
+    assert.deepEqual(
+        ids(index.getElementsByClassName('b')), ['renamed', 'one', '']);
+
+    dom5.remove(main);
+    assert.deepEqual(index.getElementsByClassName('b'), []);
+    assert.isNull(index.getElementById('renamed'));
+
+    const body = dom5.query(doc, dom5.predicates.hasTagName('body'))!;
+    dom5.setTextContent(body, 'empty');
+    assert.deepEqual(index.getElementsByTagName('p'), []);
+  });
+
+  test('notices changes to template content', () => {
+    index = new dom5.DocumentIndex(doc, dom5.childNodesIncludeTemplate);
+    const template = dom5.query(doc, dom5.predicates.hasTagName('template'))!;
+    const content = parse5.treeAdapters.default.getTemplateContent(template);
+    const em = dom5.constructors.element('em');
+    dom5.setAttribute(em, 'id', 'added');
+    dom5.append(content, em);
+    assert.isTrue(index.isStale);
+    assert.equal(index.getElementById('added'), em);
+
+    // Including the content of templates inserted after the index was built.
+    const inserted = parse5.parseFragment('<template><b></b></template>');
+    dom5.append(content, inserted);
+    const b = index.getElementsByTagName('b')[0];
+    dom5.setAttribute(b, 'id', 'nested');
+    assert.equal(index.getElementById('nested'), b);
+  });
+
+  test('ignores template content it does not index', () => {
+    const template = dom5.query(doc, dom5.predicates.hasTagName('template'))!;
+    const content = parse5.treeAdapters.default.getTemplateContent(template);
+    dom5.append(content, dom5.constructors.element('em'));
+    assert.isFalse(index.isStale);
+  });
+
+  test('ignores changes to other trees', () => {
+    const other = parse5.parseFragment('<div id="main"></div>');
+    dom5.remove(other.childNodes![0]);
+    assert.isFalse(index.isStale);
+  });
+
+  test('notices when the children of a fragment are moved out', () => {
+    const fragment = parse5.parseFragment('<p class="x"></p>');
+    const fragmentIndex = new dom5.DocumentIndex(fragment);
+    const div = dom5.constructors.element('div');
+    dom5.append(div, fragment);
+    assert.isTrue(fragmentIndex.isStale);
+  });
+
+  test('markTreeChanged marks the index as stale', () => {
+    const main = index.getElementById('main')!;
+    main.attrs.length = 0;
+    assert.isFalse(index.isStale);
+    dom5.markTreeChanged(main);
+    assert.isTrue(index.isStale);
+    assert.isNull(index.getElementById('renamed'));
+    assert.equal(
+        dom5.getTextContent(index.getElementById('main')!), 'duplicate id');
+  });
+});
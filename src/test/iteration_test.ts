@@ -15,7 +15,7 @@ import * as parse5 from 'parse5';
 import * as path from 'path';
 
 import * as dom5 from '../index-next';
-import {fixturesDir} from './utils';
+import {deeplyNestedHtml, fixturesDir} from './utils';
 
 /// <reference path="mocha" />
 
@@ -59,6 +59,52 @@ suite('iteration', () => {
     assert.equal(theLinkIsNotAnAncestor, undefined);
   });
 
+  test('ancestorsIncludingTemplates', () => {
+    const [anchor] = [...dom5.queryAll(
+        doc,
+        dom5.predicates.hasAttrValue('href', 'next-page.html'),
+        dom5.childNodesIncludeTemplate)];
+    const names = [...dom5.ancestorsIncludingTemplates(anchor, doc)].map(
+        (node) => node.nodeName);
+    assert.deepEqual(names, [
+      'a',
+      '#document-fragment',
+      'template',
+      'dom-module',
+      'body',
+      'html',
+      '#document',
+    ]);
+    assert.deepEqual(
+        [...dom5.ancestors(anchor)].map((node) => node.nodeName),
+        ['a', '#document-fragment']);
+  });
+
+  test('ancestorsIncludingTemplates finds hosts in a fresh parse', () => {
+    const nested = parse5.parseFragment(
+        '<template id="outer"><template id="inner"><b></b></template>' +
+        '</template>');
+    const outer = nested.childNodes![0];
+    const inner =
+        parse5.treeAdapters.default.getTemplateContent(outer).childNodes![0];
+    const innerContent = parse5.treeAdapters.default.getTemplateContent(inner);
+    const b = innerContent.childNodes![0];
+    assert.equal(dom5.getTemplateHost(innerContent, nested), inner);
+    assert.deepEqual([...dom5.ancestorsIncludingTemplates(b, nested)], [
+      b,
+      innerContent,
+      inner,
+      inner.parentNode!,
+      outer,
+      nested,
+    ]);
+    // Ancestors stop at template content whose <template> isn't under root.
+    assert.equal(dom5.getTemplateHost(innerContent, b), undefined);
+    assert.deepEqual(
+        [...dom5.ancestorsIncludingTemplates(b, inner)],
+        [b, innerContent, inner, inner.parentNode!]);
+  });
+
   test('depthFirst can be filtered down to one node', () => {
     // doc -> body -> dom-module -> template
     const template =
@@ -112,6 +158,94 @@ suite('iteration', () => {
     assert.equal(actual, expected);
   });
 
+  test('breadthFirst yields nodes level by level', () => {
+    function names(nodes: Iterable<parse5.ASTNode>) {
+      return [...nodes].filter(dom5.isElement).map((n) => n.tagName);
+    }
+    assert.deepEqual(names(dom5.breadthFirst(doc, undefined, 2)), [
+      'html',
+      'head',
+      'body',
+    ]);
+    assert.deepEqual(names(dom5.breadthFirst(doc)), [
+      'html',
+      'head',
+      'body',
+      'link',
+      'dom-module',
+      'script',
+      'template',
+      'div',
+      'a',
+    ]);
+    const content = dom5.childNodesIncludeTemplate;
+    assert.sameMembers(
+        [...dom5.breadthFirst(doc, content)],
+        [...dom5.depthFirst(doc, content)]);
+  });
+
+  test('walk yields annotated nodes', () => {
+    const domModule =
+        dom5.query(doc, dom5.predicates.hasTagName('dom-module'))!;
+    const entries = [...dom5.walk(domModule, dom5.childNodesIncludeTemplate)];
+    assert.deepEqual(entries[0], {
+      node: domModule,
+      depth: 0,
+      parent: undefined,
+      index: -1,
+    });
+    const anchors =
+        entries.filter((entry) => dom5.predicates.hasTagName('a')(entry.node));
+    assert.deepEqual(
+        anchors.map(
+            ({depth, parent, index}) => [depth, parent!.nodeName, index]),
+        [[2, 'template', 3], [2, 'div', 1]]);
+    for (const {node, parent, index} of entries.slice(1)) {
+      assert.equal(dom5.childNodesIncludeTemplate(parent!)![index], node);
+    }
+    assert.deepEqual(
+        [...dom5.walk(domModule, undefined, 1)].map((e) => e.node.nodeName), [
+          'dom-module',
+          '#text',
+          'template',
+          '#text',
+          'div',
+          '#text',
+        ]);
+  });
+
+  test('nextSiblings and following', () => {
+    function names(nodes: Iterable<parse5.ASTNode>) {
+      return [...nodes].filter(dom5.isElement).map((n) => n.tagName);
+    }
+    const p = dom5.predicates;
+    const template = dom5.query(doc, p.hasTagName('template'))!;
+    assert.deepEqual(names(dom5.nextSiblings(template)), ['div']);
+    assert.deepEqual(names(dom5.following(template)), ['div', 'a', 'script']);
+    const link = dom5.query(doc, p.hasTagName('link'))!;
+    assert.deepEqual(
+        names(dom5.following(link)),
+        ['body', 'dom-module', 'template', 'div', 'a', 'script']);
+    assert.deepEqual(
+        names(dom5.following(link, dom5.childNodesIncludeTemplate)),
+        ['body', 'dom-module', 'template', 'img', 'a', 'div', 'a', 'script']);
+    const script = dom5.query(doc, p.hasTagName('script'))!;
+    assert.deepEqual(
+        names(dom5.prior(script, dom5.childNodesIncludeTemplate)), [
+          'a',
+          'div',
+          'a',
+          'img',
+          'template',
+          'dom-module',
+          'body',
+          'link',
+          'head',
+          'html',
+        ]);
+    assert.deepEqual([...dom5.following(doc)], []);
+  });
+
   test('queryAll', () => {
     const fn = dom5.predicates.AND(
         dom5.predicates.OR(
@@ -158,4 +292,138 @@ suite('iteration', () => {
           'The Polymer Project Authors');
     });
   });
+
+  suite('deeply nested documents', () => {
+    const depth = 10000;
+    let doc: parse5.ASTNode;
+    let innermost: parse5.ASTNode;
+
+    suiteSetup(() => {
+      doc = parse5.parse(deeplyNestedHtml(depth));
+      innermost = dom5.query(
+          doc, dom5.predicates.hasTextValue('deep', {ownTextOnly: true}))!;
+    });
+
+    test('depthFirst and depthFirstReversed', () => {
+      const nodes = [...dom5.depthFirst(doc)];
+      // #document, html, head, body, the divs and the text node.
+      assert.equal(nodes.length, depth + 5);
+      assert.deepEqual([...dom5.depthFirstReversed(doc)], nodes.reverse());
+    });
+
+    test('prior', () => {
+      const priorNodes = [...dom5.prior(innermost)];
+      assert.equal(priorNodes.length, depth + 3);
+      assert.equal(priorNodes[priorNodes.length - 1], doc);
+    });
+
+    test('treeMap, walk and queryAll', () => {
+      const texts =
+          [...dom5.treeMap(doc, (n) => dom5.isTextNode(n) ? [n.value] : [])];
+      assert.deepEqual(texts, ['deep']);
+      let maxDepth = 0;
+      for (const entry of dom5.walk(doc)) {
+        maxDepth = Math.max(maxDepth, entry.depth);
+      }
+      assert.equal(maxDepth, depth + 3);
+      const divs = [...dom5.queryAll(doc, dom5.predicates.hasTagName('div'))];
+      assert.equal(divs.length, depth);
+      assert.equal(divs[divs.length - 1], innermost);
+    });
+  });
+
+  suite('mutation during iteration', () => {
+    let fragment: parse5.ASTNode;
+    const anyElement = dom5.isElement;
+
+    setup(() => {
+      fragment = parse5.parseFragment(
+          '<div id="a"><p id="a1"></p><p id="a2"></p></div>' +
+          '<div id="b"><p id="b1"></p></div><div id="c"></div>');
+    });
+
+    function ids(nodes: Iterable<parse5.ASTNode>) {
+      return [...nodes].map((node) => dom5.getAttribute(node, 'id'));
+    }
+
+    function* removing(elements: Iterable<dom5.Element>) {
+      for (const element of elements) {
+        yield element;
+        dom5.remove(element);
+      }
+    }
+
+    test('lazy queries walk into removed elements', () => {
+      assert.deepEqual(
+          ids(removing(dom5.queryAll(fragment, anyElement))),
+          ['a', 'a1', 'a2', 'b', 'b1', 'c']);
+    });
+
+    test('snapshot queries find every match up front', () => {
+      const matches =
+          dom5.queryAll(fragment, dom5.predicates.hasTagName('p'), undefined, {
+            snapshot: true
+          });
+      dom5.remove(dom5.query(fragment, dom5.predicates.hasTagName('div'))!);
+      assert.deepEqual(ids(matches), ['a1', 'a2', 'b1']);
+      const selected = dom5.querySelectorAll(fragment, 'div', undefined, {
+        snapshot: true,
+      });
+      dom5.append(fragment, dom5.constructors.element('div'));
+      assert.deepEqual(ids(selected), ['b', 'c']);
+    });
+
+    test('live queries tolerate removal', () => {
+      assert.deepEqual(
+          ids(removing(dom5.queryAllLive(fragment, anyElement))),
+          ['a', 'b', 'c']);
+      assert.equal(parse5.serialize(fragment), '');
+    });
+
+    test('live queries tolerate replacement', () => {
+      const seen = [];
+      for (const element of dom5.queryAllLive(
+               fragment, dom5.predicates.hasTagName('p'))) {
+        seen.push(dom5.getAttribute(element, 'id'));
+        if (dom5.getAttribute(element, 'id') === 'a1') {
+          const replacement = dom5.constructors.element('span');
+          const p = dom5.constructors.element('p');
+          dom5.setAttribute(p, 'id', 'new');
+          dom5.append(replacement, p);
+          dom5.replace(element, replacement);
+        }
+      }
+      assert.deepEqual(seen, ['a1', 'new', 'a2', 'b1']);
+    });
+
+    test('live queries tolerate removeNodeSaveChildren', () => {
+      const seen = [];
+      for (const element of dom5.queryAllLive(fragment, anyElement)) {
+        seen.push(dom5.getAttribute(element, 'id'));
+        if (dom5.predicates.hasTagName('div')(element)) {
+          dom5.removeNodeSaveChildren(element);
+        }
+      }
+      assert.deepEqual(seen, ['a', 'a1', 'a2', 'b', 'b1', 'c']);
+      assert.equal(
+          parse5.serialize(fragment),
+          '<p id="a1"></p><p id="a2"></p><p id="b1"></p>');
+    });
+
+    test('live queries see siblings inserted after the current node', () => {
+      const seen = [];
+      for (const element of dom5.queryAllLive(fragment, anyElement)) {
+        seen.push(dom5.getAttribute(element, 'id'));
+        if (dom5.getAttribute(element, 'id') === 'b') {
+          const before = dom5.constructors.element('hr');
+          dom5.setAttribute(before, 'id', 'before');
+          const after = dom5.constructors.element('hr');
+          dom5.setAttribute(after, 'id', 'after');
+          dom5.insertBefore(fragment, element, before);
+          dom5.insertAfter(fragment, element, after);
+        }
+      }
+      assert.deepEqual(seen, ['a', 'a1', 'a2', 'b', 'b1', 'after', 'c']);
+    });
+  });
 });
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('MutationObserver', () => {
+  const p = dom5.predicates;
+  let fragment: parse5.ASTNode;
+  let div: parse5.ASTNode;
+  let observer: dom5.MutationObserver;
+  let batches: dom5.MutationRecord[][];
+
+  setup(() => {
+    fragment = parse5.parseFragment(
+        '<div id="a">text<p>one</p><!--comment--></div>' +
+        '<template><span></span></template>');
+    div = fragment.childNodes![0];
+    batches = [];
+    observer = new dom5.MutationObserver((records, calledWith) => {
+      assert.equal(calledWith, observer);
+      batches.push(records);
+    });
+  });
+
+  teardown(() => {
+    observer.disconnect();
+  });
+
+  function summarize(record: dom5.MutationRecord) {
+    const name = (node: parse5.ASTNode | null) => node && node.nodeName;
+    switch (record.type) {
+      case 'childList':
+        return `${name(record.target)}: ` +
+            `-[${record.removedNodes.map(name)}] ` +
+            `+[${record.addedNodes.map(name)}] ` +
+            `between ${name(record.previousSibling)} and ` +
+            `${name(record.nextSibling)}`;
+      case 'attributes':
+        return `${name(record.target)}[${record.attributeName}] ` +
+            `was ${record.oldValue}`;
+      case 'characterData':
+        return `${name(record.target)} was ${record.oldValue}`;
+    }
+  }
+
+  test('records child list changes', () => {
+    observer.observe(div, {childList: true});
+    const p1 = div.childNodes![1];
+    dom5.insertBefore(div, p1, dom5.constructors.element('em'));
+    dom5.remove(p1);
+    dom5.replace(div.childNodes![0], dom5.constructors.element('hr'));
+    dom5.append(div, dom5.constructors.text('end'));
+    dom5.setTextContent(dom5.constructors.element('b'), 'unobserved');
+    assert.deepEqual(observer.takeRecords().map(summarize), [
+      'div: -[] +[em] between #text and p',
+      'div: -[p] +[] between em and #comment',
+      'div: -[#text] +[hr] between null and em',
+      'div: -[] +[#text] between #comment and null',
+    ]);
+  });
+
+  test('records attribute changes', () => {
+    observer.observe(div, {attributes: true, attributeOldValue: true});
+    dom5.setAttribute(div, 'id', 'b');
+    dom5.setAttribute(div, 'title', 't');
+    dom5.removeAttribute(div, 'id');
+    dom5.removeAttribute(div, 'missing');
+    dom5.setAttributeNS(div, dom5.namespaces.xlink, 'xlink:href', 'x');
+    const records = observer.takeRecords();
+    assert.deepEqual(records.map(summarize), [
+      'div[id] was a',
+      'div[title] was null',
+      'div[id] was b',
+      'div[href] was null',
+    ]);
+    assert.equal(records[3].attributeNamespace, dom5.namespaces.xlink);
+    assert.isNull(records[0].attributeNamespace);
+  });
+
+  test('leaves out old values unless asked for', () => {
+    observer.observe(div, {attributes: true, characterData: true});
+    observer.observe(div.childNodes![0], {characterData: true});
+    dom5.setAttribute(div, 'id', 'b');
+    dom5.setTextContent(div.childNodes![0], 'changed');
+    assert.deepEqual(
+        observer.takeRecords().map(summarize),
+        ['div[id] was null', '#text was null']);
+  });
+
+  test('attributeFilter', () => {
+    observer.observe(div, {attributeFilter: ['title']});
+    dom5.setAttribute(div, 'id', 'b');
+    dom5.setAttribute(div, 'title', 't');
+    assert.deepEqual(
+        observer.takeRecords().map(summarize), ['div[title] was null']);
+  });
+
+  test('records character data changes', () => {
+    observer.observe(
+        div, {characterData: true, characterDataOldValue: true, subtree: true});
+    dom5.setTextContent(div.childNodes![0], 'new text');
+    dom5.setTextContent(div.childNodes![2], 'new comment');
+    assert.deepEqual(
+        observer.takeRecords().map(summarize),
+        ['#text was text', '#comment was comment']);
+  });
+
+  test('records normalize', () => {
+    dom5.append(div, dom5.constructors.text('a'));
+    dom5.append(div, dom5.constructors.text('b'));
+    observer.observe(div, {childList: true});
+    dom5.normalize(div);
+    assert.deepEqual(observer.takeRecords().map(summarize), [
+      'div: -[#text,#text] +[#text] between #comment and null',
+      'div: -[#text] +[#text] between null and p',
+    ]);
+  });
+
+  test('subtree', () => {
+    observer.observe(fragment, {childList: true, attributes: true});
+    const paragraph = dom5.query(fragment, p.hasTagName('p'))!;
+    dom5.setAttribute(paragraph, 'class', 'x');
+    assert.deepEqual(observer.takeRecords(), []);
+
+    observer.observe(fragment, {attributes: true, subtree: true});
+    dom5.setAttribute(paragraph, 'class', 'y');
+    dom5.remove(paragraph);
+    dom5.setAttribute(paragraph, 'class', 'z');
+    assert.deepEqual(
+        observer.takeRecords().map(summarize), ['p[class] was null']);
+  });
+
+  test('subtree includes known template content', () => {
+    observer.observe(fragment, {childList: true, subtree: true});
+    const span = dom5.query(
+        fragment, p.hasTagName('span'), dom5.childNodesIncludeTemplate)!;
+    dom5.remove(span);
+    assert.deepEqual(
+        observer.takeRecords().map(summarize),
+        ['#document-fragment: -[span] +[] between null and null']);
+  });
+
+  test('delivers records in batches', async () => {
+    observer.observe(div, {childList: true, attributes: true});
+    dom5.setAttribute(div, 'id', 'b');
+    dom5.append(div, dom5.constructors.element('br'));
+    assert.deepEqual(batches, []);
+    await Promise.resolve();
+    assert.deepEqual(
+        batches.map((records) => records.map(summarize)),
+        [['div[id] was null', 'div: -[] +[br] between #comment and null']]);
+
+    dom5.setAttribute(div, 'id', 'c');
+    observer.takeRecords();
+    await Promise.resolve();
+    assert.equal(batches.length, 1, 'taken records are not delivered');
+  });
+
+  test('subtree includes template content in a fresh parse', () => {
+    const doc = parse5.parse('<template><b><i></i></b></template>');
+    observer.observe(doc, {attributes: true, subtree: true});
+    const template = dom5.query(doc, p.hasTagName('template'))!;
+    const b =
+        parse5.treeAdapters.default.getTemplateContent(template).childNodes![0];
+    dom5.setAttribute(b.childNodes![0], 'class', 'x');
+
+    const inserted = parse5.parseFragment('<template><em></em></template>');
+    const insertedContent =
+        parse5.treeAdapters.default.getTemplateContent(inserted.childNodes![0]);
+    dom5.append(b, inserted);
+    dom5.setAttribute(insertedContent.childNodes![0], 'class', 'y');
+    assert.deepEqual(
+        observer.takeRecords().map(summarize),
+        ['i[class] was null', 'em[class] was null']);
+  });
+
+  test('a callback that throws does not stop delivery', async () => {
+    const reported: Error[] = [];
+    const consoleError = console.error;
+    console.error = (error: Error) => reported.push(error);
+    try {
+      const throwing = new dom5.MutationObserver(() => {
+        throw new Error('callback failed');
+      });
+      throwing.observe(div, {attributes: true});
+      observer.observe(div, {attributes: true});
+      dom5.setAttribute(div, 'id', 'b');
+      await Promise.resolve();
+      assert.equal(batches.length, 1);
+      assert.deepEqual(
+          reported.map((error) => error.message), ['callback failed']);
+      throwing.disconnect();
+    } finally {
+      console.error = consoleError;
+    }
+  });
+
+  test('disconnect', async () => {
+    observer.observe(div, {attributes: true});
+    dom5.setAttribute(div, 'id', 'b');
+    observer.disconnect();
+    dom5.setAttribute(div, 'id', 'c');
+    await Promise.resolve();
+    assert.deepEqual(batches, []);
+    assert.deepEqual(observer.takeRecords(), []);
+  });
+
+  test('requires something to observe', () => {
+    assert.throws(() => observer.observe(div, {}), /must include/);
+    assert.throws(
+        () =>
+            observer.observe(div, {attributes: false, attributeOldValue: true}),
+        /attributeOldValue requires attributes/);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('position', () => {
+  let fragment: parse5.ASTNode;
+
+  setup(() => {
+    fragment = parse5.parseFragment(
+        '<div id="a"><span id="b"></span><span id="c"></span></div>' +
+        '<p id="d"></p>' +
+        '<template id="t"><i id="e"></i></template>');
+  });
+
+  function byId(id: string) {
+    return dom5.query(
+        fragment,
+        dom5.predicates.hasAttrValue('id', id),
+        dom5.childNodesIncludeTemplate)!;
+  }
+
+  test('compareDocumentPosition', () => {
+    const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(byId);
+    assert.equal(dom5.compareDocumentPosition(a, a), 0);
+    assert.equal(
+        dom5.compareDocumentPosition(b, c), dom5.DOCUMENT_POSITION_FOLLOWING);
+    assert.equal(
+        dom5.compareDocumentPosition(d, b), dom5.DOCUMENT_POSITION_PRECEDING);
+    assert.equal(
+        dom5.compareDocumentPosition(b, a),
+        dom5.DOCUMENT_POSITION_CONTAINS | dom5.DOCUMENT_POSITION_PRECEDING);
+    assert.equal(
+        dom5.compareDocumentPosition(fragment, c),
+        dom5.DOCUMENT_POSITION_CONTAINED_BY | dom5.DOCUMENT_POSITION_FOLLOWING);
+  });
+
+  test('compareDocumentPosition of disconnected nodes', () => {
+    const other = dom5.constructors.element('div');
+    const a = byId('a');
+    const forward = dom5.compareDocumentPosition(a, other);
+    const backward = dom5.compareDocumentPosition(other, a);
+    assert.ok(forward & dom5.DOCUMENT_POSITION_DISCONNECTED);
+    assert.ok(forward & dom5.DOCUMENT_POSITION_IMPLEMENTATION_SPECIFIC);
+    // One comes before the other, whichever way round they are compared.
+    const order =
+        dom5.DOCUMENT_POSITION_PRECEDING | dom5.DOCUMENT_POSITION_FOLLOWING;
+    assert.notEqual(forward & order, 0);
+    assert.equal((forward & order) ^ (backward & order), order);
+  });
+
+  test('template content is disconnected unless template-aware', () => {
+    const [t, e, d] = ['t', 'e', 'd'].map(byId);
+    assert.ok(
+        dom5.compareDocumentPosition(t, e) &
+        dom5.DOCUMENT_POSITION_DISCONNECTED);
+    assert.equal(
+        dom5.compareDocumentPosition(
+            t, e, dom5.parentNodeIncludingTemplates(fragment)),
+        dom5.DOCUMENT_POSITION_CONTAINED_BY | dom5.DOCUMENT_POSITION_FOLLOWING);
+    assert.equal(
+        dom5.compareDocumentPosition(
+            e, d, dom5.parentNodeIncludingTemplates(fragment)),
+        dom5.DOCUMENT_POSITION_PRECEDING);
+    assert.isFalse(dom5.contains(t, e));
+    assert.isTrue(
+        dom5.contains(t, e, dom5.parentNodeIncludingTemplates(fragment)));
+  });
+
+  test('contains', () => {
+    const [a, b, d] = ['a', 'b', 'd'].map(byId);
+    assert.isTrue(dom5.contains(a, a));
+    assert.isTrue(dom5.contains(a, b));
+    assert.isTrue(dom5.contains(fragment, b));
+    assert.isFalse(dom5.contains(b, a));
+    assert.isFalse(dom5.contains(d, b));
+  });
+
+  test('commonAncestor', () => {
+    const [a, b, c, d, e] = ['a', 'b', 'c', 'd', 'e'].map(byId);
+    assert.equal(dom5.commonAncestor(b, c), a);
+    assert.equal(dom5.commonAncestor(b, c, d), fragment);
+    assert.equal(dom5.commonAncestor(b, a), a);
+    assert.equal(dom5.commonAncestor(b), b);
+    assert.equal(dom5.commonAncestor(), undefined);
+    assert.equal(dom5.commonAncestor(b, e), undefined);
+    assert.equal(
+        dom5.commonAncestorIncludingTemplates(fragment, b, e), fragment);
+  });
+
+  test('sortInDocumentOrder', () => {
+    const [a, b, c, d, e, t] = ['a', 'b', 'c', 'd', 'e', 't'].map(byId);
+    assert.deepEqual(
+        dom5.sortInDocumentOrder([d, c, a, b, c, a]), [a, b, c, d]);
+    assert.deepEqual(
+        dom5.sortInDocumentOrder(
+            [e, d, t, a], dom5.parentNodeIncludingTemplates(fragment)),
+        [a, d, t, e]);
+  });
+
+  test('sortInDocumentOrder merges the results of several queries', () => {
+    const spans = dom5.queryAll(fragment, dom5.predicates.hasTagName('span'));
+    const divs = dom5.queryAll(fragment, dom5.predicates.hasTagName('div'));
+    const merged = dom5.sortInDocumentOrder([...spans, ...divs]);
+    assert.deepEqual(
+        merged.map((node) => dom5.getAttribute(node, 'id')), ['a', 'b', 'c']);
+  });
+
+  suite('node paths', () => {
+    test('getNodePath and resolveNodePath', () => {
+      const c = byId('c');
+      const path = dom5.getNodePath(c, fragment);
+      assert.deepEqual(path, [0, 1]);
+      assert.equal(dom5.resolveNodePath(fragment, path), c);
+      assert.deepEqual(dom5.getNodePath(fragment, fragment), []);
+      assert.equal(dom5.resolveNodePath(fragment, []), fragment);
+    });
+
+    test('paths cross into template content', () => {
+      const e = byId('e');
+      const path = dom5.getNodePath(e, fragment);
+      assert.deepEqual(path, [2, dom5.TEMPLATE_CONTENT, 0]);
+      assert.equal(dom5.resolveNodePath(fragment, path), e);
+    });
+
+    test('paths resolve against a fresh parse', () => {
+      const docText = '<!doctype html><div><template><p>a</p><p>b</p>' +
+          '</template></div>';
+      const doc = parse5.parse(docText);
+      const p = dom5.query(
+          doc,
+          dom5.predicates.hasTextValue('b'),
+          dom5.childNodesIncludeTemplate)!;
+      const path = JSON.parse(JSON.stringify(dom5.getNodePath(p, doc)));
+      const reparsed = parse5.parse(docText);
+      const resolved = dom5.resolveNodePath(reparsed, path)!;
+      assert.notEqual(resolved, p);
+      assert.equal(resolved.nodeName, 'p');
+      assert.equal(dom5.getTextContent(resolved), 'b');
+    });
+
+    test('paths into template content need no earlier walk', () => {
+      const docText = '<div><template><b></b></template><p></p></div>';
+      const doc = parse5.parseFragment(docText);
+      const template = doc.childNodes![0].childNodes![0];
+      const b = parse5.treeAdapters.default.getTemplateContent(template)
+                    .childNodes![0];
+      const path = dom5.getNodePath(b, doc);
+      assert.deepEqual(path, [0, 0, dom5.TEMPLATE_CONTENT, 0]);
+      const resolved =
+          dom5.resolveNodePath(parse5.parseFragment(docText), path)!;
+      assert.equal(resolved.nodeName, 'b');
+    });
+
+    test('getNodePath throws for nodes not under root', () => {
+      const e = byId('e');
+      assert.throws(() => dom5.getNodePath(e, byId('a')), /not under root/);
+      assert.throws(
+          () => dom5.getNodePath(dom5.constructors.element('b'), fragment),
+          /not under root/);
+    });
+
+    test('resolveNodePath returns null for missing nodes', () => {
+      assert.isNull(dom5.resolveNodePath(fragment, [7]));
+      assert.isNull(dom5.resolveNodePath(fragment, [0, 0, 0]));
+      assert.isNull(dom5.resolveNodePath(fragment, [0, dom5.TEMPLATE_CONTENT]));
+    });
+
+    test('string form', () => {
+      const path = dom5.getNodePath(byId('e'), fragment);
+      const text = dom5.stringifyNodePath(path);
+      assert.equal(text, '/2/content/0');
+      assert.deepEqual(dom5.parseNodePath(text), path);
+      assert.equal(dom5.stringifyNodePath([]), '/');
+      assert.deepEqual(dom5.parseNodePath('/'), []);
+      assert.throws(() => dom5.parseNodePath('2/0'), /Invalid node path/);
+      assert.throws(() => dom5.parseNodePath('/a'), /Invalid node path/);
+    });
+  });
+});
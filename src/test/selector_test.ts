@@ -0,0 +1,231 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+import * as walking from '../walking';
+
+/// <reference path="mocha" />
+
+suite('selector', () => {
+  const docText: string = `
+<!DOCTYPE html>
+<link rel="import" href="polymer.html">
+<dom-module id="my-el">
+<template>
+  <link rel="import" href="paper-button.html">
+  <div class="a b"><span id="first"></span><em></em><span id="last"></span></div>
+</template>
+</dom-module>
+<div class="c"><span lang="en"></span></div>
+`.replace(/  /g, '');
+  let doc: parse5.ASTNode;
+
+  setup(() => {
+    doc = parse5.parse(docText);
+  });
+
+  function ids(nodes: Iterable<parse5.ASTNode>) {
+    return [...nodes].map((n) => dom5.getAttribute(n, 'id'));
+  }
+
+  test('compiles simple selectors', () => {
+    const span = dom5.query(doc, dom5.predicates.hasAttr('lang'))!;
+    assert.isTrue(dom5.compileSelector('span')(span));
+    assert.isTrue(dom5.compileSelector('SPAN[LANG=en]')(span));
+    assert.isTrue(dom5.compileSelector('*')(span));
+    assert.isTrue(dom5.compileSelector('.c > span')(span));
+    assert.isFalse(dom5.compileSelector('[lang=fr]')(span));
+    assert.isFalse(dom5.compileSelector('div')(span));
+    assert.isFalse(dom5.compileSelector('*')(doc));
+  });
+
+  test('type, id, class and attribute selectors', () => {
+    assert.equal(dom5.querySelector(doc, 'dom-module')!.tagName, 'dom-module');
+    assert.equal(
+        dom5.querySelector(doc, '#my-el'),
+        dom5.querySelector(doc, 'dom-module'));
+    assert.equal(
+        dom5.getAttribute(dom5.querySelector(doc, '.c')!, 'class'), 'c');
+    assert.equal(
+        dom5.getAttribute(dom5.querySelector(doc, 'link[rel=import]')!, 'href'),
+        'polymer.html');
+    assert.equal(
+        dom5.querySelector(doc, '[class~="c"] [lang]')!.tagName, 'span');
+    assert.isNull(dom5.querySelector(doc, 'link[rel=stylesheet]'));
+  });
+
+  test('attribute operators and flags', () => {
+    const links =
+        (selector:
+             string) => [...dom5
+                             .querySelectorAll(
+                                 doc, selector, dom5.childNodesIncludeTemplate)]
+                            .map((n) => dom5.getAttribute(n, 'href'));
+    assert.deepEqual(links('[href^=paper]'), ['paper-button.html']);
+    assert.deepEqual(
+        links('[href$=".html"]'), ['polymer.html', 'paper-button.html']);
+    assert.deepEqual(links('[href*=lym]'), ['polymer.html']);
+    assert.deepEqual(links('[href*=LYM]'), []);
+    assert.deepEqual(links('[href*=LYM i]'), ['polymer.html']);
+    assert.deepEqual(links('[rel=IMPORT s]'), []);
+    assert.equal(dom5.querySelector(doc, '[lang|=en]')!.tagName, 'span');
+  });
+
+  test('structural pseudo-classes', () => {
+    const content = dom5.childNodesIncludeTemplate;
+    const find = (selector: string) =>
+        ids(dom5.querySelectorAll(doc, selector, content));
+    assert.deepEqual(find('div > :first-child'), ['first', null]);
+    assert.deepEqual(find('span:last-child'), ['last', null]);
+    assert.deepEqual(find('span:only-child'), [null]);
+    assert.deepEqual(find('.a > :nth-child(2n+1)'), ['first', 'last']);
+    assert.deepEqual(find('.a > :nth-child( -n + 2 )'), ['first', null]);
+    assert.deepEqual(find('.a > :nth-last-child(odd)'), ['first', 'last']);
+    assert.deepEqual(find('.a > span:nth-of-type(2)'), ['last']);
+    assert.deepEqual(find('.a > :nth-last-of-type(1)'), [null, 'last']);
+    assert.deepEqual(find('.a > :first-of-type'), ['first', null]);
+    assert.deepEqual(find('.a > :last-of-type'), [null, 'last']);
+    assert.deepEqual(find('.a > :only-of-type'), [null]);
+    assert.deepEqual(find('em:empty'), [null]);
+    assert.equal(dom5.querySelector(doc, ':root')!.tagName, 'html');
+  });
+
+  test('combinators', () => {
+    const content = dom5.childNodesIncludeTemplate;
+    assert.deepEqual(
+        ids(dom5.querySelectorAll(doc, 'div.a > span', content)),
+        ['first', 'last']);
+    assert.deepEqual(
+        ids(dom5.querySelectorAll(doc, 'span + em', content)), [null]);
+    assert.deepEqual(
+        ids(dom5.querySelectorAll(doc, 'em + span', content)), ['last']);
+    assert.deepEqual(
+        ids(dom5.querySelectorAll(doc, 'em ~ *', content)), ['last']);
+    assert.deepEqual(
+        ids(dom5.querySelectorAll(doc, 'span ~ span', content)), ['last']);
+    assert.deepEqual(
+        ids(dom5.querySelectorAll(doc, 'body > div span', content)), [null]);
+  });
+
+  test('selector lists are returned in document order', () => {
+    const results = [...dom5.querySelectorAll(doc, '.c, link')];
+    assert.deepEqual(results.map((n) => n.tagName), ['link', 'div']);
+  });
+
+  test('matches across template boundaries', () => {
+    const selector = 'dom-module > template link[rel=import]';
+    assert.isNull(dom5.querySelector(doc, selector));
+    const link =
+        dom5.querySelector(doc, selector, dom5.childNodesIncludeTemplate)!;
+    assert.equal(dom5.getAttribute(link, 'href'), 'paper-button.html');
+  });
+
+  test('walking.querySelectorAll returns an array', () => {
+    const matches = walking.querySelectorAll(
+        doc, 'span', undefined, dom5.childNodesIncludeTemplate);
+    assert.isArray(matches);
+    assert.equal(matches.length, 3);
+    assert.equal(walking.querySelector(doc, 'span')!, matches[2]);
+  });
+
+  test('throws on invalid selectors', () => {
+    for (const selector
+             of ['', 'div >', 'a,', '[href', 'a !b', '[a%=b]', '[a=b x]']) {
+      assert.throws(
+          () => dom5.compileSelector(selector), /Invalid selector/, selector);
+    }
+  });
+
+  suite('getUniqueSelector', () => {
+    function uniqueSelector(
+        element: dom5.Element,
+        root: parse5.ASTNode,
+        getChildNodes?: dom5.GetChildNodes) {
+      const selector = dom5.getUniqueSelector(element, root, getChildNodes)!;
+      assert.deepEqual(
+          [...dom5.querySelectorAll(root, selector, getChildNodes)], [element]);
+      return selector;
+    }
+
+    test('prefers ids, then tag names, classes and attributes', () => {
+      const withTemplates = dom5.childNodesIncludeTemplate;
+      const first = dom5.querySelector(doc, '#first', withTemplates)!;
+      const em = dom5.querySelector(doc, 'em', withTemplates)!;
+      const div = dom5.querySelector(doc, '.c')!;
+      const span = dom5.querySelector(doc, '[lang]')!;
+      assert.equal(uniqueSelector(first, doc, withTemplates), '#first');
+      assert.equal(uniqueSelector(em, doc, withTemplates), 'em');
+      assert.equal(uniqueSelector(div, doc), 'div');
+      assert.equal(uniqueSelector(div, doc, withTemplates), '.c');
+      assert.equal(uniqueSelector(span, doc), 'span');
+      assert.equal(uniqueSelector(span, doc, withTemplates), '[lang="en"]');
+    });
+
+    test('falls back to :nth-child() and ancestors', () => {
+      const fragment = parse5.parseFragment(
+          '<ul><li></li><li></li></ul><ul><li></li><li></li></ul>');
+      const li = fragment.childNodes![1].childNodes![1] as dom5.Element;
+      assert.equal(
+          uniqueSelector(li, fragment), 'ul:nth-child(2) > li:nth-child(2)');
+    });
+
+    test('works inside template content', () => {
+      const fragment = parse5.parseFragment(
+          '<dom-module id="x"><template><b></b></template></dom-module>' +
+          '<dom-module id="y"><template><b></b></template></dom-module>');
+      const [, b] = [...dom5.querySelectorAll(
+          fragment, 'b', dom5.childNodesIncludeTemplate)];
+      assert.equal(
+          uniqueSelector(b, fragment, dom5.childNodesIncludeTemplate),
+          '#y > template > b');
+      assert.equal(uniqueSelector(b, b.parentNode!), 'b');
+      assert.equal(dom5.getUniqueSelector(b, fragment), '#y > template > b');
+    });
+
+    test('uses :nth-of-type() at the top of fragments', () => {
+      const fragment = parse5.parseFragment(
+          '<template><div class="a b"><a href=x>1</a>' +
+          '<a href=y class=b>2</a></div><a>3</a></template>');
+      const content = parse5.treeAdapters.default.getTemplateContent(
+          fragment.childNodes![0]);
+      const a = content.childNodes![1] as dom5.Element;
+      assert.equal(uniqueSelector(a, content), 'a:nth-of-type(1):nth-child(2)');
+    });
+
+    test('escapes identifiers and attribute values', () => {
+      const fragment = parse5.parseFragment(
+          '<p id="1 a"></p><p title=\'say "hi"\'></p><p></p>');
+      const [byId, byTitle] = [...dom5.querySelectorAll(fragment, 'p')];
+      assert.equal(uniqueSelector(byId, fragment), '#\\31 \\ a');
+      assert.equal(uniqueSelector(byTitle, fragment), '[title="say \\"hi\\""]');
+    });
+
+    test('returns null when there is no unique selector', () => {
+      const fragment = parse5.parseFragment('<div><div></div></div>');
+      const outer = fragment.childNodes![0] as dom5.Element;
+      assert.isNull(dom5.getUniqueSelector(outer, fragment));
+      assert.equal(
+          uniqueSelector(outer.childNodes![0] as dom5.Element, fragment),
+          'div > div');
+    });
+
+    test('throws for elements not under root', () => {
+      const div = dom5.querySelector(doc, '.c')!;
+      assert.throws(
+          () => dom5.getUniqueSelector(div, div.childNodes![0]),
+          /not under root/);
+      assert.throws(() => dom5.getUniqueSelector(div, div), /not under root/);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as stream from 'stream';
+
+import * as dom5 from '../index-next';
+import {fixturesDir} from './utils';
+
+/// <reference path="mocha" />
+
+suite('streaming', () => {
+  const p = dom5.predicates;
+  const docText = `<!doctype html>
+<html>
+<head>
+  <link rel="import" href="polymer.html">
+  <script src="head.js"></script>
+</head>
+<body>
+  <ul><li><link rel="stylesheet" href="in-list.css"><li>two</ul>
+  <p>text<div><script>var x = '<link rel="import" href="fake.html">';</script>
+  </div>
+  <svg><a href="svg-link"/><title>t</title></svg>
+  <script src="body.js"></script>
+</body>
+</html>`;
+
+  function input(text: string) {
+    const readable = new stream.PassThrough();
+    readable.end(text);
+    return readable;
+  }
+
+  async function collect(
+      predicate: dom5.Predicate, text = docText, limit = Infinity) {
+    const found: dom5.StreamedElement[] = [];
+    await dom5.queryStream(input(text), predicate, (element) => {
+      found.push(element);
+      return found.length >= limit ? dom5.STOP : undefined;
+    });
+    return found;
+  }
+
+  test('finds elements by tag and attribute', async () => {
+    const scripts = await collect(p.hasTagName('script'));
+    assert.deepEqual(
+        scripts.map((script) => dom5.getAttribute(script, 'src')),
+        ['head.js', null, 'body.js']);
+    const imports = await collect(p.hasAttrValue('rel', 'import'));
+    assert.deepEqual(
+        imports.map((link) => dom5.getAttribute(link, 'href')),
+        ['polymer.html']);
+  });
+
+  test('records where each start tag is', async () => {
+    const [link] = await collect(p.hasTagName('link'));
+    const location = link.__location;
+    assert.equal(location.line, 4);
+    assert.equal(location.col, 3);
+    assert.equal(
+        docText.slice(location.startOffset, location.endOffset),
+        '<link rel="import" href="polymer.html">');
+    assert.isFalse(link.selfClosing);
+  });
+
+  test('supports ancestor constraints', async () => {
+    const inHead = await collect(
+        p.AND(p.hasTagName('script'), p.parentMatches(p.hasTagName('head'))));
+    assert.deepEqual(
+        inHead.map((script) => dom5.getAttribute(script, 'src')), ['head.js']);
+    const linkInList = await collect(dom5.compileSelector('ul > li > link'));
+    assert.equal(dom5.getAttribute(linkInList[0], 'href'), 'in-list.css');
+    const secondItem = await collect(
+        p.AND(p.hasTagName('li'), p.parentMatches(p.hasTagName('li'))));
+    assert.deepEqual(secondItem, [], 'li start tags end the open li');
+    const inParagraph = await collect(dom5.compileSelector('p script'));
+    assert.deepEqual(inParagraph, [], 'div start tags end the open p');
+  });
+
+  test('puts foreign elements in their namespace', async () => {
+    const [svgLink] = await collect(p.hasTagNameNS(dom5.namespaces.svg, 'a'));
+    assert.equal(dom5.getAttribute(svgLink, 'href'), 'svg-link');
+    assert.isTrue(svgLink.selfClosing);
+    const [title] = await collect(p.hasTagName('title'));
+    assert.equal(title.parentNode!.tagName, 'svg');
+  });
+
+  test('STOP stops reading', async () => {
+    const found = await collect(p.hasTagName('script'), docText, 1);
+    assert.equal(found.length, 1);
+  });
+
+  test('reads files', async () => {
+    const file =
+        fs.createReadStream(path.join(fixturesDir, 'multiple-comments.html'));
+    const found: dom5.StreamedElement[] = [];
+    await dom5.queryStream(
+        file, p.hasAttrValue('id', 'test-element'), (element) => {
+          found.push(element);
+        });
+    assert.equal(found.length, 1);
+    assert.equal(found[0].tagName, 'dom-module');
+  });
+
+  // clang-format doesn't understand `for await` yet.
+  // clang-format off
+  test('iterates with for await', async () => {
+    const sources: Array<string|null> = [];
+    for await (const script of dom5.queryStream(
+        input(docText), p.hasTagName('script'))) {
+      sources.push(dom5.getAttribute(script, 'src'));
+    }
+    assert.deepEqual(sources, ['head.js', null, 'body.js']);
+  });
+
+  test('break and STOP close files', async () => {
+    const fixture = path.join(fixturesDir, 'multiple-comments.html');
+    const file = fs.createReadStream(fixture);
+    const closed = new Promise((resolve) => file.on('close', resolve));
+    const found: dom5.StreamedElement[] = [];
+    for await (const element of dom5.queryStream(file, () => true)) {
+      found.push(element);
+      break;
+    }
+    await closed;
+    assert.equal(found.length, 1);
+
+    const other = fs.createReadStream(fixture);
+    const otherClosed = new Promise((resolve) => other.on('close', resolve));
+    await dom5.queryStream(other, () => true, () => dom5.STOP);
+    await otherClosed;
+  });
+
+  /** A stream of `count` paragraphs, each in a chunk of about 1KB. */
+  function paragraphs(count: number) {
+    const chunk = '<p></p>' + ' '.repeat(1000);
+    let read = 0;
+    const readable = new stream.Readable({
+      read() {
+        this.push(read < count ? chunk : null);
+        read++;
+      }
+    });
+    return {readable, chunksRead: () => read};
+  }
+
+  test('iteration pauses the input for slow loops', async () => {
+    const {readable, chunksRead} = paragraphs(1000);
+    const iterator = dom5.queryStream(readable, p.hasTagName('p'));
+    await iterator.next();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.isBelow(chunksRead(), 100);
+    await iterator.return!();
+
+    const all = paragraphs(1000);
+    let count = 0;
+    for await (const _ of dom5.queryStream(all.readable, p.hasTagName('p'))) {
+      count++;
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    assert.equal(count, 1000);
+  });
+
+  test('iteration throws errors', async () => {
+    const failing = () => {
+      throw new Error('predicate failed');
+    };
+    let error: Error|undefined;
+    try {
+      for await (const element of dom5.queryStream(input(docText), failing)) {
+        assert.fail(element, undefined, 'nothing matches');
+      }
+    } catch (e) {
+      error = e;
+    }
+    assert.match(error!.message, /predicate failed/);
+  });
+  // clang-format on
+
+  test('rejects on errors', async () => {
+    let error: Error|undefined;
+    try {
+      await dom5.queryStream(input(docText), p.hasTagName('link'), () => {
+        throw new Error('callback failed');
+      });
+    } catch (e) {
+      error = e;
+    }
+    assert.match(error!.message, /callback failed/);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('transactions', () => {
+  const p = dom5.predicates;
+  const docText = '<!DOCTYPE html><html><head><title>t</title></head><body>' +
+      '<div id="a" class="x"><p>one</p>two<!--c--></div>' +
+      '<ul><li>1</li><li>2</li></ul>' +
+      '<template><span>in template</span></template></body></html>';
+  let doc: parse5.ASTNode;
+
+  setup(() => {
+    doc = parse5.parse(docText);
+  });
+
+  function find(tagName: string, root = doc) {
+    return dom5.query(
+        root, p.hasTagName(tagName), dom5.childNodesIncludeTemplate)!;
+  }
+
+  function makeChanges(root = doc) {
+    const div = find('div', root);
+    const ul = find('ul', root);
+    dom5.setAttribute(div, 'id', 'b');
+    dom5.setAttribute(div, 'title', 'new');
+    dom5.removeAttribute(div, 'class');
+    dom5.setAttributeNS(
+        div, dom5.namespaces.xlink, 'xlink:href', 'https://example.com');
+    dom5.setTextContent(find('p', root), 'changed');
+    dom5.setTextContent(div.childNodes![1], 'text');
+    dom5.setTextContent(div.childNodes![2], 'comment');
+    dom5.append(ul, find('p', root));
+    dom5.replace(ul.childNodes![0], dom5.constructors.element('hr'));
+    dom5.remove(find('title', root));
+    dom5.append(div, dom5.constructors.text('more'));
+    dom5.normalize(div);
+    const em = dom5.constructors.element('em');
+    dom5.setAttribute(em, 'class', 'before insertion');
+    dom5.insertBefore(div, div.childNodes![0], em);
+    dom5.setTextContent(em, 'after insertion');
+    const fragment = parse5.parseFragment('<b>1</b><i>2</i>');
+    dom5.append(find('head', root), fragment);
+    dom5.setAttribute(find('span', root), 'class', 'in template');
+  }
+
+  test('rollback undoes every change', () => {
+    const transaction = dom5.beginTransaction(doc);
+    makeChanges();
+    assert.notEqual(parse5.serialize(doc), docText);
+    transaction.rollback();
+    assert.equal(parse5.serialize(doc), docText);
+    assert.isFalse(transaction.isActive);
+    assert.deepEqual(transaction.changes, []);
+  });
+
+  test('rollback restores the nodes that were there', () => {
+    const div = find('div');
+    const children = div.childNodes!.slice();
+    const transaction = dom5.beginTransaction(doc);
+    dom5.setTextContent(div, 'gone');
+    dom5.remove(div);
+    transaction.rollback();
+    assert.deepEqual(div.childNodes, children);
+    assert.equal(div.parentNode, find('body'));
+    assert.isTrue(children.every((child) => child.parentNode === div));
+  });
+
+  test('commit keeps the changes', () => {
+    const transaction = dom5.beginTransaction(doc);
+    dom5.setAttribute(find('div'), 'id', 'b');
+    transaction.commit();
+    dom5.setAttribute(find('div'), 'id', 'c');
+    assert.deepEqual(
+        transaction.changes.map((change) => change.type), ['attributes']);
+    assert.throws(() => transaction.rollback(), /already been committed/);
+    assert.throws(() => transaction.commit(), /already been committed/);
+    assert.equal(dom5.getAttribute(find('div'), 'id'), 'c');
+  });
+
+  test('savepoints', () => {
+    const div = find('div');
+    const transaction = dom5.beginTransaction(doc);
+    dom5.setAttribute(div, 'id', '1');
+    const first = transaction.savepoint();
+    dom5.setAttribute(div, 'id', '2');
+    const second = transaction.savepoint();
+    dom5.setAttribute(div, 'id', '3');
+
+    transaction.rollbackTo(second);
+    assert.equal(dom5.getAttribute(div, 'id'), '2');
+    dom5.setAttribute(div, 'id', '4');
+    transaction.rollbackTo(second);
+    assert.equal(dom5.getAttribute(div, 'id'), '2');
+
+    transaction.rollbackTo(first);
+    assert.equal(dom5.getAttribute(div, 'id'), '1');
+    assert.throws(() => transaction.rollbackTo(second), /Unknown savepoint/);
+    assert.equal(transaction.changes.length, 1);
+
+    transaction.rollback();
+    assert.equal(dom5.getAttribute(div, 'id'), 'a');
+  });
+
+  test('inTransaction rolls back if the function throws', () => {
+    assert.equal(dom5.inTransaction(doc, (transaction) => {
+      dom5.remove(find('div'));
+      return transaction.changes.length;
+    }), 1);
+    assert.isNull(dom5.query(doc, p.hasTagName('div')));
+
+    assert.throws(() => dom5.inTransaction(doc, () => {
+      dom5.remove(find('ul'));
+      throw new Error('failed');
+    }), /failed/);
+    assert.isNotNull(dom5.query(doc, p.hasTagName('ul')));
+  });
+
+  test('transactions nest', () => {
+    const outer = dom5.beginTransaction(doc);
+    dom5.setAttribute(find('div'), 'id', 'outer');
+    const inner = dom5.beginTransaction(doc);
+    dom5.remove(find('ul'));
+    inner.rollback();
+    assert.isNotNull(dom5.query(doc, p.hasTagName('ul')));
+    dom5.remove(find('title'));
+    outer.rollback();
+    assert.equal(parse5.serialize(doc), docText);
+  });
+
+  test('replay makes the same changes to another parse', () => {
+    const transaction = dom5.beginTransaction(doc);
+    makeChanges();
+    transaction.commit();
+    const expected = parse5.serialize(doc);
+
+    const copy = parse5.parse(docText);
+    transaction.replay(copy);
+    assert.equal(parse5.serialize(copy), expected);
+    assert.equal(dom5.getAttribute(find('span', copy), 'class'), 'in template');
+
+    const another = parse5.parse(docText);
+    transaction.replay(another);
+    assert.equal(parse5.serialize(another), expected);
+    assert.notEqual(find('em', another), find('em', copy));
+  });
+
+  test('replay skips changes that were rolled back', () => {
+    const transaction = dom5.beginTransaction(doc);
+    dom5.setAttribute(find('div'), 'id', 'kept');
+    const savepoint = transaction.savepoint();
+    const em = dom5.constructors.element('em');
+    dom5.append(find('div'), em);
+    transaction.rollbackTo(savepoint);
+    dom5.append(find('ul'), em);
+    dom5.setAttribute(em, 'class', 'moved');
+    transaction.commit();
+
+    const copy = parse5.parse(docText);
+    transaction.replay(copy);
+    assert.equal(parse5.serialize(copy), parse5.serialize(doc));
+  });
+
+  test('replay fails if the tree is different', () => {
+    const transaction = dom5.beginTransaction(doc);
+    dom5.setAttribute(find('li'), 'id', 'first');
+    transaction.commit();
+    assert.throws(
+        () => transaction.replay(parse5.parseFragment('<p></p>')),
+        /Cannot replay a change to \/1\/1\/1\/0: there is no node there/);
+  });
+});
@@ -12,3 +12,13 @@
 import * as path from 'path';
 
 export const fixturesDir = path.join(__dirname, '../../src/test/static/');
+
+/**
+ * Returns the source of a document with `depth` nested `<div>`s around the
+ * text "deep", like the output of some machine-generated HTML. Used to check
+ * that traversals don't recurse once per level.
+ */
+export function deeplyNestedHtml(depth: number): string {
+  return '<div>'.repeat(depth) + 'deep' +
+      '</div>'.repeat(depth);
+}
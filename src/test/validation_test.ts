@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('validateTree', () => {
+  const p = dom5.predicates;
+  let fragment: parse5.ASTNode;
+  let div: parse5.ASTNode;
+  let span: parse5.ASTNode;
+
+  setup(() => {
+    fragment = parse5.parseFragment(
+        '<div><p>one</p>text<!--comment--></div>' +
+        '<svg><a xlink:href="#x"></a></svg>' +
+        '<template><span></span></template>');
+    div = fragment.childNodes![0];
+    span = dom5.query(
+        fragment, p.hasTagName('span'), dom5.childNodesIncludeTemplate)!;
+  });
+
+  function messages(problems: dom5.TreeProblem[]) {
+    return problems.map((problem) => problem.message);
+  }
+
+  function validateTreeOf(root: parse5.ASTNode) {
+    return messages(dom5.validateTree(root));
+  }
+
+  test('finds no problems with parsed trees', () => {
+    assert.deepEqual(validateTreeOf(fragment), []);
+    const doc = parse5.parse('<!doctype html><title>t</title><p>text');
+    assert.deepEqual(validateTreeOf(doc), []);
+  });
+
+  test('finds wrong back-references', () => {
+    const paragraph = div.childNodes![0];
+    paragraph.parentNode = undefined;
+    div.childNodes![1].parentNode = fragment;
+    span.parentNode = div;
+    const problems = dom5.validateTree(fragment);
+    assert.deepEqual(messages(problems), [
+      '/0/0: parentNode is missing',
+      '/0/1: parentNode is not the node it is a child of',
+      '/2/content/0: parentNode is not the node it is a child of',
+    ]);
+    assert.equal(problems[0].kind, 'wrong-parent');
+    assert.equal(problems[0].node, paragraph);
+    assert.deepEqual(problems[2].path, [2, dom5.TEMPLATE_CONTENT, 0]);
+  });
+
+  test('finds nodes in more than one place, and cycles', () => {
+    const paragraph = div.childNodes![0];
+    span.childNodes!.push(paragraph);
+    div.childNodes!.push(div.childNodes![1]);
+    paragraph.childNodes!.push(div);
+    const problems = dom5.validateTree(fragment);
+    assert.deepEqual(messages(problems), [
+      '/0/0/1: node is its own ancestor, at /0',
+      '/0/3: node is also at /0/1',
+      '/2/content/0/0: node is also at /0/0',
+    ]);
+    assert.deepEqual(
+        problems.map((problem) => problem.kind),
+        ['cycle', 'multiple-parents', 'multiple-parents']);
+  });
+
+  test('reports template content before template children', () => {
+    const template = fragment.childNodes![2];
+    const stray = dom5.constructors.element('b');
+    template.childNodes!.push(stray);
+    span.parentNode = undefined;
+    assert.deepEqual(validateTreeOf(fragment), [
+      '/2/content/0: parentNode is missing',
+      '/2/0: parentNode is missing',
+    ]);
+  });
+
+  test('finds leaf nodes with children', () => {
+    const text = div.childNodes![1];
+    text.childNodes = [dom5.constructors.element('b')];
+    text.childNodes[0].parentNode = text;
+    div.childNodes![2].childNodes = [];
+    assert.deepEqual(
+        validateTreeOf(fragment), ['/0/1: #text node has child nodes']);
+  });
+
+  test('finds templates without content', () => {
+    const template: parse5.ASTNode&{content?: parse5.ASTNode} =
+        fragment.childNodes![2];
+    delete template.content;
+    assert.deepEqual(
+        validateTreeOf(fragment), ['/2: template has no content fragment']);
+  });
+
+  test('handles deep trees and elements without attrs', () => {
+    let deepest = div;
+    for (let i = 0; i < 10000; i++) {
+      const child = dom5.constructors.element('div');
+      dom5.append(deepest, child, {validate: false});
+      deepest = child;
+    }
+    assert.deepEqual(validateTreeOf(fragment), []);
+    const withoutAttrs: Partial<parse5.ASTNode> = deepest;
+    delete withoutAttrs.attrs;
+    assert.deepEqual(validateTreeOf(fragment), []);
+  });
+
+  test('finds bad namespaces', () => {
+    const svgLink = dom5.query(fragment, p.hasTagName('a'))!;
+    div.namespaceURI = 'urn:unknown';
+    const href: parse5.ASTAttribute&{namespace?: string} = svgLink.attrs[0];
+    href.namespace = dom5.namespaces.svg;
+    assert.deepEqual(validateTreeOf(fragment), [
+      '/0: <div> has namespace "urn:unknown"',
+      '/1/0: attribute href of <a> has namespace ' +
+          `"${dom5.namespaces.svg}"`,
+    ]);
+  });
+});
+
+suite('repairTree', () => {
+  test('fixes back-references that have only one fix', () => {
+    const fragment = parse5.parseFragment('<div><p>one</p><p>two</p></div>');
+    const div = fragment.childNodes![0];
+    const [first, second] = div.childNodes!;
+    first.parentNode = undefined;
+    second.parentNode = fragment;
+    first.childNodes![0].parentNode = second;
+
+    assert.deepEqual(dom5.repairTree(fragment), []);
+    assert.equal(first.parentNode, div);
+    assert.equal(second.parentNode, div);
+    assert.equal(first.childNodes![0].parentNode, first);
+    assert.deepEqual(dom5.validateTree(fragment), []);
+  });
+
+  test('leaves nodes that are in more than one place', () => {
+    const fragment = parse5.parseFragment('<div><p>one</p></div><hr>');
+    const [div, hr] = fragment.childNodes!;
+    const paragraph = div.childNodes![0];
+    hr.childNodes = [paragraph];
+    paragraph.parentNode = undefined;
+
+    const problems = dom5.repairTree(fragment);
+    assert.deepEqual(
+        problems.map((problem) => problem.message),
+        ['/0/0: parentNode is missing', '/1/0: node is also at /0/0']);
+    assert.isUndefined(paragraph.parentNode);
+  });
+
+  test('marks the tree as changed', () => {
+    const fragment = parse5.parseFragment('<p>one</p>');
+    const version = dom5.getTreeVersion(fragment);
+    assert.deepEqual(dom5.repairTree(fragment), []);
+    assert.equal(dom5.getTreeVersion(fragment), version);
+    fragment.childNodes![0].parentNode = undefined;
+    dom5.repairTree(fragment);
+    assert.notEqual(dom5.getTreeVersion(fragment), version);
+  });
+});
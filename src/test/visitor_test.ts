@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('visitor', () => {
+  let fragment: parse5.ASTNode;
+
+  setup(() => {
+    fragment = parse5.parseFragment(
+        '<ul><li id="a"><i></i></li><li id="b"></li></ul><p id="c"></p>');
+  });
+
+  function name(node: parse5.ASTNode) {
+    return dom5.getAttribute(node, 'id') || node.nodeName;
+  }
+
+  function record(visitor: dom5.Visitor = {}) {
+    const events: string[] = [];
+    const stopped = dom5.visit(fragment, {
+      enter(node, parent) {
+        events.push(`enter ${name(node)}`);
+        return visitor.enter && visitor.enter(node, parent);
+      },
+      leave(node, parent) {
+        events.push(`leave ${name(node)}`);
+        return visitor.leave && visitor.leave(node, parent);
+      },
+    });
+    return {events, stopped};
+  }
+
+  test('enters and leaves each node in order', () => {
+    const {events, stopped} = record();
+    assert.isFalse(stopped);
+    assert.deepEqual(events, [
+      'enter #document-fragment',
+      'enter ul',
+      'enter a',
+      'enter i',
+      'leave i',
+      'leave a',
+      'enter b',
+      'leave b',
+      'leave ul',
+      'enter c',
+      'leave c',
+      'leave #document-fragment',
+    ]);
+  });
+
+  test('passes the parent', () => {
+    const parents: Array<[string, string | undefined]> = [];
+    dom5.visit(fragment, {
+      enter(node, parent) {
+        parents.push([name(node), parent && name(parent)]);
+      }
+    });
+    assert.deepEqual(parents.slice(0, 3), [
+      ['#document-fragment', undefined],
+      ['ul', '#document-fragment'],
+      ['a', 'ul'],
+    ]);
+  });
+
+  test('SKIP skips the children of a node', () => {
+    const {events} = record({
+      enter: (node) =>
+          dom5.predicates.hasTagName('ul')(node) ? dom5.SKIP : undefined
+    });
+    assert.deepEqual(events, [
+      'enter #document-fragment',
+      'enter ul',
+      'leave ul',
+      'enter c',
+      'leave c',
+      'leave #document-fragment',
+    ]);
+  });
+
+  test('STOP ends the walk', () => {
+    let {events, stopped} =
+        record({enter: (node) => name(node) === 'a' ? dom5.STOP : undefined});
+    assert.isTrue(stopped);
+    assert.deepEqual(
+        events, ['enter #document-fragment', 'enter ul', 'enter a']);
+    ({events, stopped} = record(
+         {leave: (node) => name(node) === 'ul' ? dom5.STOP : undefined}));
+    assert.isTrue(stopped);
+    assert.equal(events[events.length - 1], 'leave ul');
+  });
+
+  test('tolerates the current node being removed', () => {
+    const {events} = record({
+      enter(node) {
+        if (name(node) === 'a') {
+          dom5.remove(node);
+        }
+      }
+    });
+    assert.deepEqual(events.slice(2, 6), [
+      'enter a',
+      'enter b',
+      'leave b',
+      'leave ul',
+    ]);
+    assert.equal(
+        parse5.serialize(fragment), '<ul><li id="b"></li></ul><p id="c"></p>');
+  });
+
+  test('tolerates the current node being replaced', () => {
+    const {events} = record({
+      enter(node) {
+        if (name(node) === 'a') {
+          const replacement = dom5.constructors.element('em');
+          dom5.append(replacement, dom5.constructors.text('new'));
+          dom5.replace(node, replacement);
+        }
+      }
+    });
+    assert.deepEqual(events.slice(2, 9), [
+      'enter a',
+      'enter em',
+      'enter #text',
+      'leave #text',
+      'leave em',
+      'enter b',
+      'leave b',
+    ]);
+  });
+
+  test('tolerates siblings changing', () => {
+    const {events} = record({
+      enter(node) {
+        if (name(node) === 'b') {
+          dom5.insertBefore(
+              node.parentNode!, node, dom5.constructors.element('hr'));
+          dom5.remove(node.parentNode!.childNodes![0]);
+        }
+      },
+      leave(node) {
+        if (name(node) === 'c') {
+          dom5.remove(node);
+        }
+      },
+    });
+    assert.deepEqual(events.slice(4, 12), [
+      'leave i',
+      'leave a',
+      'enter b',
+      'leave b',
+      'leave ul',
+      'enter c',
+      'leave c',
+      'leave #document-fragment',
+    ]);
+    assert.equal(parse5.serialize(fragment), '<ul><hr><li id="b"></li></ul>');
+  });
+});
@@ -15,7 +15,7 @@ import * as parse5 from 'parse5';
 import * as path from 'path';
 
 import * as dom5 from '../index';
-import {fixturesDir} from './utils';
+import {deeplyNestedHtml, fixturesDir} from './utils';
 
 /// <reference path="mocha" />
 
@@ -59,6 +59,21 @@ suite('walking', () => {
     assert.equal(theLinkIsNotAnAncestor, undefined);
   });
 
+  test('nodeWalkAncestors with a getParentNode', () => {
+    const fragment = parse5.parseFragment(
+        '<dom-module><template><a></a></template></dom-module>');
+    const anchor = dom5.query(
+        fragment,
+        dom5.predicates.hasTagName('a'),
+        dom5.childNodesIncludeTemplate)!;
+    const isDomModule = dom5.predicates.hasTagName('dom-module');
+    assert.isUndefined(dom5.nodeWalkAncestors(anchor, isDomModule));
+    assert.equal(
+        dom5.nodeWalkAncestors(
+            anchor, isDomModule, dom5.parentNodeIncludingTemplates(fragment)),
+        fragment.childNodes![0]);
+  });
+
   test('nodeWalk', () => {
     // doc -> body -> dom-module -> template
     const template =
@@ -131,6 +146,24 @@ suite('walking', () => {
     assert.equal(actual[0], expected_1);
     assert.equal(actual[1], expected_2);
   });
+  test('nodeWalkNext and nodeWalkAllNext', () => {
+    const link = dom5.query(doc, dom5.predicates.hasTagName('link'))!;
+    const isAnchor = dom5.predicates.hasTagName('a');
+    const next = dom5.nodeWalkNext(link, isAnchor)!;
+    assert.equal(dom5.getAttribute(next, 'href'), 'another-anchor');
+    assert.equal(
+        dom5.getAttribute(
+            dom5.nodeWalkNext(link, isAnchor, dom5.childNodesIncludeTemplate)!,
+            'href'),
+        'next-page.html');
+    assert.isUndefined(dom5.nodeWalkNext(next, isAnchor));
+    const all = dom5.nodeWalkAllNext(
+        link, isAnchor, undefined, dom5.childNodesIncludeTemplate);
+    assert.deepEqual(
+        all.map((a) => dom5.getAttribute(a, 'href')),
+        ['next-page.html', 'another-anchor']);
+  });
+
   suite('NodeWalkAllPrior', () => {
     const docText = fs.readFileSync(
         path.join(fixturesDir, 'multiple-comments.html'), 'utf8');
@@ -154,4 +187,16 @@ suite('walking', () => {
           'The Polymer Project Authors');
     });
   });
+
+  test('deeply nested documents', () => {
+    const depth = 10000;
+    const doc = parse5.parse(deeplyNestedHtml(depth));
+    const divs = dom5.queryAll(doc, dom5.predicates.hasTagName('div'));
+    assert.equal(divs.length, depth);
+    assert.equal(dom5.nodeWalkAll(doc, dom5.isTextNode).length, 1);
+    assert.equal(dom5.getTextContent(doc), 'deep');
+    assert.equal(
+        dom5.nodeWalkAllPrior(divs[depth - 1], dom5.isElement).length,
+        depth + 3);
+  });
 });
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt The complete set of authors may be found
+ * at http://polymer.github.io/AUTHORS.txt The complete set of contributors may
+ * be found at http://polymer.github.io/CONTRIBUTORS.txt Code distributed by
+ * Google as part of the polymer project is also subject to an additional IP
+ * rights grant found at http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as parse5 from 'parse5';
+
+import * as dom5 from '../index-next';
+
+/// <reference path="mocha" />
+
+suite('xpath', () => {
+  const docText: string = `
+<!DOCTYPE html>
+<html lang="en-US">
+<head><title>Test</title></head>
+<body>
+<dom-module id="x">
+<template>
+  <button id="b1" on-tap="go">Go</button>
+  <span id="s1">one</span>
+  <!-- note -->
+  <button id="b2">  Stop   now </button>
+</template>
+</dom-module>
+<ul>
+  <li id="l1" class="a">1</li>
+  <li id="l2" class="b">2</li>
+  <li id="l3" class="a">3</li>
+</ul>
+<svg><use xlink:href="#i"></use></svg>
+</body>
+</html>
+`.replace(/  /g, '');
+  let doc: parse5.ASTNode;
+
+  setup(() => {
+    doc = parse5.parse(docText);
+  });
+
+  function ids(
+      expression: string,
+      contextNode = doc,
+      getChildNodes?: dom5.GetChildNodes) {
+    return [...dom5.evaluateXPath(expression, contextNode, getChildNodes)].map(
+        (n) => dom5.getAttribute(n, 'id') || n.nodeName);
+  }
+
+  test('selects with location paths', () => {
+    assert.deepEqual(ids('//li'), ['l1', 'l2', 'l3']);
+    assert.deepEqual(ids('/html/body/ul/li'), ['l1', 'l2', 'l3']);
+    assert.deepEqual(ids('//LI[@class="a"]'), ['l1', 'l3']);
+    assert.deepEqual(ids('/'), ['#document']);
+    assert.deepEqual(ids('//ul/*[2]'), ['l2']);
+    assert.deepEqual(ids('//li/text()'), ['#text', '#text', '#text']);
+    assert.deepEqual(ids('/html/head/title/..'), ['head']);
+    assert.deepEqual(ids('//svg/use[@xlink:href="#i"]'), ['use']);
+  });
+
+  test('crosses templates with childNodesIncludeTemplate', () => {
+    const expression = `//dom-module[@id='x']/template//*[@on-tap]`;
+    assert.deepEqual(ids(expression), []);
+    assert.deepEqual(
+        ids(expression, doc, dom5.childNodesIncludeTemplate), ['b1']);
+    assert.deepEqual(
+        ids('//span/ancestor::*', doc, dom5.childNodesIncludeTemplate),
+        ['html', 'body', 'x', 'template']);
+    assert.deepEqual(
+        ids('//comment()', doc, dom5.childNodesIncludeTemplate), ['#comment']);
+  });
+
+  test('string values follow getChildNodes into templates', () => {
+    const fragment = parse5.parseFragment('<template>x<b>y</b></template>');
+    const expression = '//template[. = "xy"]';
+    assert.deepEqual(ids(expression, fragment), []);
+    assert.deepEqual(
+        ids(expression, fragment, dom5.childNodesIncludeTemplate),
+        ['template']);
+    assert.deepEqual(
+        ids('//template[string-length(.) = 2]',
+            fragment,
+            dom5.childNodesIncludeTemplate),
+        ['template']);
+  });
+
+  test('axes', () => {
+    const l2 = dom5.querySelector(doc, '#l2')!;
+    assert.deepEqual(ids('following-sibling::li', l2), ['l3']);
+    assert.deepEqual(ids('preceding-sibling::li', l2), ['l1']);
+    assert.deepEqual(ids('preceding-sibling::*[1]', l2), ['l1']);
+    assert.deepEqual(
+        ids('ancestor-or-self::*', l2), ['html', 'body', 'ul', 'l2']);
+    assert.deepEqual(ids('ancestor::*[1]', l2), ['ul']);
+    assert.deepEqual(ids('following::*', l2), ['l3', 'svg', 'use']);
+    assert.deepEqual(ids('preceding::*[3]', l2), ['x']);
+    assert.deepEqual(ids('self::li | parent::*', l2), ['ul', 'l2']);
+    assert.deepEqual(ids('descendant-or-self::li', l2), ['l2']);
+    assert.deepEqual(ids('../li[@id != "l2"]', l2), ['l1', 'l3']);
+    assert.deepEqual(ids('//li[@id="l3"]/@class/..'), ['l3']);
+  });
+
+  test('positional predicates', () => {
+    assert.deepEqual(ids('//li[1]'), ['l1']);
+    assert.deepEqual(ids('//li[last()]'), ['l3']);
+    assert.deepEqual(ids('//li[position() > 1]'), ['l2', 'l3']);
+    assert.deepEqual(ids('//li[@class="a"][2]'), ['l3']);
+    assert.deepEqual(ids('(//li)[last() - 1]'), ['l2']);
+    assert.deepEqual(ids('//li[position() mod 2 = 1]'), ['l1', 'l3']);
+    assert.deepEqual(ids('//*[count(li) = 3]'), ['ul']);
+  });
+
+  test('functions', () => {
+    const content = dom5.childNodesIncludeTemplate;
+    const cases: Array<[string, string[]]> = [
+      [`//li[contains(@class, 'b')]`, ['l2']],
+      [`//li[starts-with(concat(@id, '-', .), 'l3-')]`, ['l3']],
+      [`//li[string-length(@id) = 2][not(@class = 'a')]`, ['l2']],
+      [`//*[normalize-space() = 'Stop now']`, ['b2']],
+      [`//*[substring(@id, 2) = '1'][local-name() = 'li']`, ['l1']],
+      [`//*[substring-after(@id, 's') = '1']`, ['s1']],
+      [`//*[substring-before(@id, '2') = 'b']`, ['b2']],
+      [`//*[translate(@id, 'bl', 'BL') = 'L3']`, ['l3']],
+      [`//li[number(.) * 2 = 4]`, ['l2']],
+      [
+        `//ul[sum(li) = 6][floor(2.5) = 2][ceiling(2.5) = 3][round(2.5) = 3]`,
+        ['ul']
+      ],
+      [`//li[lang('en')][1]`, ['l1']],
+      [
+        `//*[name() = 'use'][namespace-uri() = 'http://www.w3.org/2000/svg']`,
+        ['use']
+      ],
+      [
+        `//li[boolean(@class) and true() and not(false())][. = 1 or . = '3']`,
+        ['l1', 'l3']
+      ],
+    ];
+    for (const [expression, expected] of cases) {
+      assert.deepEqual(ids(expression, doc, content), expected, expression);
+    }
+  });
+
+  test('yields nodes lazily', () => {
+    const visited: parse5.ASTNode[] = [];
+    const getChildNodes = (node: parse5.ASTNode) => {
+      visited.push(node);
+      return node.childNodes;
+    };
+    const iterator = dom5.evaluateXPath('//li', doc, getChildNodes);
+    assert.equal(dom5.getAttribute(iterator.next().value, 'id'), 'l1');
+    assert.notInclude(
+        visited.map((n) => n.nodeName), 'svg', 'searched past the first li');
+  });
+
+  test('throws on invalid expressions', () => {
+    const invalid = [
+      '',
+      '//',
+      'li[',
+      'foo()',
+      'namespace::*',
+      '$x',
+      '1 +',
+      'child::',
+      'count(1, 2)',
+      '"a',
+      '#a'
+    ];
+    for (const expression of invalid) {
+      assert.throws(
+          () => dom5.evaluateXPath(expression, doc),
+          /Invalid XPath expression/,
+          expression);
+    }
+    assert.throws(() => dom5.evaluateXPath('count(//li)', doc), /select nodes/);
+    assert.throws(() => [...dom5.evaluateXPath('//@id', doc)], /attributes/);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTAttribute, ASTNode as Node} from 'parse5';
+
+import {ancestors} from './iteration';
+import {addChangeListener, Change, cloneNode, recordChange} from './modification';
+import {getNodePath, NodePath, resolveNodePath, stringifyNodePath} from './position';
+import {isCommentNode} from './predicates';
+import {TemplateHostTracker} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * Starts recording the changes that dom5's functions make, so that they can
+ * be undone with `rollback`, or made again to another parse of the same
+ * source with `replay`.
+ *
+ * `root` is the root of the tree that will be changed, like a document.
+ * Changes to nodes outside it, like a new element before it is inserted, are
+ * recorded so that they can be undone, but are only replayed as part of the
+ * nodes that are inserted into `root`.
+ */
+export function beginTransaction(root: Node): Transaction {
+  return new Transaction(root);
+}
+
+/**
+ * Calls `fn` in a new transaction on `root`, committing the transaction if
+ * `fn` returns and rolling it back if `fn` throws.
+ */
+export function inTransaction<T>(
+    root: Node, fn: (transaction: Transaction) => T): T {
+  const transaction = beginTransaction(root);
+  let result: T;
+  try {
+    result = fn(transaction);
+  } catch (e) {
+    transaction.rollback();
+    throw e;
+  }
+  transaction.commit();
+  return result;
+}
+
+/**
+ * A point in a transaction that it can be rolled back to, made with
+ * `Transaction#savepoint`.
+ */
+export interface Savepoint { readonly transaction: Transaction; }
+
+/**
+ * A recorded change, with what is needed to replay it: the root of the tree
+ * it was made in and the path from there to its target, and copies of any
+ * nodes that it added which weren't already in a replayed tree.
+ */
+interface LogEntry {
+  change: Change;
+  location: {root: Node, path: NodePath}|undefined;
+  addedCopies: Array<Node|undefined>;
+}
+
+interface SavepointEntry {
+  savepoint: Savepoint;
+  position: number;
+}
+
+/**
+ * Records the changes that dom5's functions make while it is active. Made
+ * with `beginTransaction`.
+ *
+ * Changes are recorded along with enough to reverse them, so a transaction
+ * can be rolled back completely or to a savepoint. Savepoints nest: rolling
+ * back to one discards the savepoints made after it. Transactions nest too;
+ * an inner transaction that is rolled back does so by making changes, which
+ * outer transactions record like any other.
+ *
+ * Only changes made by dom5's functions are seen. Changing the tree in any
+ * other way while a transaction is active means it can't be reliably rolled
+ * back or replayed.
+ */
+export class Transaction {
+  private readonly log: LogEntry[] = [];
+  /** The savepoints, oldest first, and the length of the log at each. */
+  private readonly savepoints: SavepointEntry[] = [];
+  /**
+   * The nodes that `replay` will have a copy of when it reaches the end of
+   * the log, because they were added to or removed from a replayed tree.
+   */
+  private known = new WeakSet<Node>();
+  /** The `<template>`s that have been in `root`. */
+  private readonly templateHosts = new TemplateHostTracker();
+  private applying = false;
+  private stopRecording: (() => void)|undefined;
+
+  constructor(readonly root: Node) {
+    this.templateHosts.learn(root);
+    this.stopRecording = addChangeListener((change) => this.record(change));
+  }
+
+  /**
+   * Whether the transaction is still recording changes: it hasn't been
+   * committed or rolled back.
+   */
+  get isActive(): boolean {
+    return this.stopRecording !== undefined;
+  }
+
+  /**
+   * The changes recorded so far, oldest first, leaving out any that have been
+   * rolled back.
+   */
+  get changes(): Change[] {
+    return this.log.map((entry) => entry.change);
+  }
+
+  /**
+   * Marks the current point in the transaction, so that `rollbackTo` can undo
+   * the changes made after it.
+   */
+  savepoint(): Savepoint {
+    this.assertActive();
+    const savepoint = {transaction: this};
+    this.savepoints.push({savepoint, position: this.log.length});
+    return savepoint;
+  }
+
+  /**
+   * Undoes the changes made since `savepoint`, which stays usable. Any
+   * savepoints made after it are discarded.
+   */
+  rollbackTo(savepoint: Savepoint) {
+    this.assertActive();
+    const index =
+        this.savepoints.findIndex((entry) => entry.savepoint === savepoint);
+    if (index === -1) {
+      throw new Error('Unknown savepoint');
+    }
+    this.savepoints.length = index + 1;
+    this.undo(this.savepoints[index].position);
+  }
+
+  /**
+   * Stops recording changes, keeping them. The transaction can still be
+   * replayed.
+   */
+  commit() {
+    this.assertActive();
+    this.stop();
+  }
+
+  /**
+   * Undoes every change made in the transaction and stops recording.
+   */
+  rollback() {
+    this.assertActive();
+    this.undo(0);
+    this.stop();
+  }
+
+  /**
+   * Makes the recorded changes again to `root`, which must be a tree like the
+   * one the transaction started with, such as another parse of the same
+   * source.
+   *
+   * Nodes that the transaction inserted are copied, so a transaction can be
+   * replayed any number of times.
+   */
+  replay(root: Node) {
+    const copies = new Map<Node, Node>([[this.root, root]]);
+    this.withoutRecording(() => {
+      for (const {change, location, addedCopies} of this.log) {
+        if (location === undefined) {
+          continue;
+        }
+        const target =
+            resolveNodePath(copies.get(location.root)!, location.path);
+        if (target === null) {
+          throw new Error(
+              `Cannot replay a change to ${stringifyNodePath(location.path)}` +
+              `: there is no node there`);
+        }
+        if (change.type !== 'childList') {
+          applyChange({...change, target: target});
+          continue;
+        }
+        const childNodes = target.childNodes || [];
+        const removedNodes = childNodes.slice(
+            change.index, change.index + change.removedNodes.length);
+        change.removedNodes.forEach(
+            (node, i) => copies.set(node, removedNodes[i]));
+        const addedNodes = change.addedNodes.map((node, i) => {
+          const copy = addedCopies[i];
+          return copy === undefined ? copies.get(node)! : cloneNode(copy);
+        });
+        change.addedNodes.forEach((node, i) => copies.set(node, addedNodes[i]));
+        applyChange({
+          ...change,
+          target: target,
+          removedNodes: removedNodes,
+          addedNodes: addedNodes,
+        });
+      }
+    });
+  }
+
+  private record(change: Change) {
+    if (this.applying) {
+      return;
+    }
+    const entry: LogEntry = {change, location: undefined, addedCopies: []};
+    const getParentNode = this.templateHosts.getParentNode;
+    const root = [...ancestors(change.target, getParentNode)].pop()!;
+    if (root === this.root || this.known.has(root)) {
+      entry.location = {
+        root,
+        path: getNodePath(change.target, root, getParentNode),
+      };
+      if (change.type === 'childList') {
+        for (const node of change.addedNodes) {
+          this.templateHosts.learn(node);
+          entry.addedCopies.push(
+              this.known.has(node) ? undefined : cloneNode(node));
+        }
+      }
+    }
+    this.log.push(entry);
+    this.learn(entry);
+  }
+
+  /**
+   * Adds the nodes that replaying `entry` will have copies of to `known`.
+   */
+  private learn({change, location}: LogEntry) {
+    if (location !== undefined && change.type === 'childList') {
+      for (const node of [...change.removedNodes, ...change.addedNodes]) {
+        this.known.add(node);
+      }
+    }
+  }
+
+  private undo(position: number) {
+    const undone = this.log.splice(position);
+    this.withoutRecording(() => {
+      for (const {change} of undone.reverse()) {
+        applyChange(invertChange(change));
+      }
+    });
+    this.known = new WeakSet();
+    this.log.forEach((entry) => this.learn(entry));
+  }
+
+  private withoutRecording(fn: () => void) {
+    this.applying = true;
+    try {
+      fn();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private stop() {
+    this.stopRecording!();
+    this.stopRecording = undefined;
+    this.savepoints.length = 0;
+  }
+
+  private assertActive() {
+    if (!this.isActive) {
+      throw new Error('Transaction has already been committed or rolled back');
+    }
+  }
+}
+
+/**
+ * Returns the change that undoes `change`.
+ */
+function invertChange(change: Change): Change {
+  switch (change.type) {
+    case 'childList':
+      return {
+        ...change,
+        removedNodes: change.addedNodes,
+        addedNodes: change.removedNodes,
+      };
+    case 'attributes':
+      return {
+        ...change,
+        oldAttribute: change.newAttribute,
+        newAttribute: change.oldAttribute,
+      };
+    case 'characterData':
+      return {...change, oldValue: change.newValue, newValue: change.oldValue};
+  }
+}
+
+/**
+ * Makes `change` to its target, and records it.
+ */
+function applyChange(change: Change) {
+  const target = change.target;
+  switch (change.type) {
+    case 'childList':
+      const childNodes = target.childNodes || (target.childNodes = []);
+      childNodes.splice(
+          change.index, change.removedNodes.length, ...change.addedNodes);
+      for (const node of change.removedNodes) {
+        node.parentNode = undefined;
+      }
+      for (const node of change.addedNodes) {
+        node.parentNode = target;
+      }
+      break;
+    case 'attributes':
+      const {oldAttribute, newAttribute} = change;
+      target.attrs.splice(
+          change.index,
+          oldAttribute ? 1 : 0,
+          ...(newAttribute ? [{...newAttribute} as ASTAttribute] : []));
+      break;
+    case 'characterData':
+      if (isCommentNode(target)) {
+        target.data = change.newValue;
+      } else {
+        target.value = change.newValue;
+      }
+      break;
+  }
+  recordChange(change);
+}
@@ -12,9 +12,9 @@
  * http://polymer.github.io/PATENTS.txt
  */
 
-import {ASTNode as Node, treeAdapters} from 'parse5';
+import {ASTAttribute, ASTNode as Node, treeAdapters} from 'parse5';
 
-import {constructors} from './modification';
+import {constructors, recordChange} from './modification';
 import {isCommentNode, isDocument, isDocumentFragment, isElement, isTextNode} from './predicates';
 import {nodeWalkAll} from './walking';
 
@@ -38,6 +38,9 @@ export function getTextContent(node: Node): string {
 
 /**
  * @returns The string value of attribute `name`, or `null`.
+ *
+ * `name` is matched case-insensitively against the name the attribute is
+ * written with, including any prefix, e.g. `xlink:href`.
  */
 export function getAttribute(element: Node, name: string): string|null {
   const i = getAttributeIndex(element, name);
@@ -53,7 +56,7 @@ export function getAttributeIndex(element: Node, name: string): number {
   }
   const n = name.toLowerCase();
   for (let i = 0; i < element.attrs.length; i++) {
-    if (element.attrs[i].name.toLowerCase() === n) {
+    if (qualifiedName(element.attrs[i]).toLowerCase() === n) {
       return i;
     }
   }
@@ -72,16 +75,156 @@ export function hasAttribute(element: Node, name: string): boolean {
 export function setAttribute(element: Node, name: string, value: string) {
   const i = getAttributeIndex(element, name);
   if (i > -1) {
+    const oldAttribute = {...element.attrs[i]};
     element.attrs[i].value = value;
+    recordAttributeChange(element, i, oldAttribute);
   } else {
     element.attrs.push({name: name, value: value});
+    recordAttributeChange(element, element.attrs.length - 1, undefined);
   }
 }
 
 export function removeAttribute(element: Node, name: string) {
   const i = getAttributeIndex(element, name);
   if (i > -1) {
-    element.attrs.splice(i, 1);
+    const [oldAttribute] = element.attrs.splice(i, 1);
+    recordAttributeChange(element, i, oldAttribute, false);
+  }
+}
+
+function recordAttributeChange(
+    element: Node,
+    index: number,
+    oldAttribute: Attribute|undefined,
+    added = true) {
+  recordChange({
+    type: 'attributes',
+    target: element,
+    index: index,
+    oldAttribute: oldAttribute && {...oldAttribute},
+    newAttribute: added ? {...element.attrs[index]} : undefined,
+  });
+}
+
+/**
+ * Namespace URIs that parse5 uses for elements and attributes.
+ */
+export const namespaces = {
+  html: 'http://www.w3.org/1999/xhtml',
+  mathml: 'http://www.w3.org/1998/Math/MathML',
+  svg: 'http://www.w3.org/2000/svg',
+  xlink: 'http://www.w3.org/1999/xlink',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+  xmlns: 'http://www.w3.org/2000/xmlns/',
+};
+
+/**
+ * A parse5 attribute. Attributes of foreign elements like `xlink:href` are
+ * split into a `prefix`, a local `name` and a `namespace`, which the parse5
+ * typings leave out.
+ */
+interface Attribute extends ASTAttribute {
+  namespace?: string;
+}
+
+/**
+ * The name an attribute is written with, e.g. `xlink:href`.
+ */
+function qualifiedName(attr: Attribute): string {
+  return attr.prefix ? `${attr.prefix}:${attr.name}` : attr.name;
+}
+
+function getAttributeIndexNS(
+    element: Node, namespace: string|null, localName: string): number {
+  if (!element.attrs) {
+    return -1;
+  }
+  for (let i = 0; i < element.attrs.length; i++) {
+    const attr: Attribute = element.attrs[i];
+    if ((attr.namespace || null) === namespace && attr.name === localName) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * @returns The string value of the attribute with the given `namespace` and
+ *     `localName`, or `null`.
+ *
+ * Equivalent to `element.getAttributeNS(namespace, localName)` in the browser,
+ * so `getAttributeNS(use, namespaces.xlink, 'href')` reads `xlink:href`.
+ */
+export function getAttributeNS(
+    element: Node, namespace: string|null, localName: string): string|null {
+  const i = getAttributeIndexNS(element, namespace, localName);
+  if (i > -1) {
+    return element.attrs[i].value;
+  }
+  return null;
+}
+
+/**
+ * @returns `true` iff `element` has an attribute with the given `namespace`
+ *     and `localName`.
+ */
+export function hasAttributeNS(
+    element: Node, namespace: string|null, localName: string): boolean {
+  return getAttributeIndexNS(element, namespace, localName) !== -1;
+}
+
+/**
+ * Sets the attribute with the given `namespace` and `qualifiedName`, which
+ * may have a prefix like `xlink:href`.
+ *
+ * Equivalent to `element.setAttributeNS(namespace, qualifiedName, value)` in
+ * the browser: an existing attribute keeps its prefix and only has its value
+ * updated.
+ */
+export function setAttributeNS(
+    element: Node,
+    namespace: string|null,
+    qualifiedName: string,
+    value: string) {
+  const colon = qualifiedName.indexOf(':');
+  const prefix = colon === -1 ? undefined : qualifiedName.slice(0, colon);
+  const localName = qualifiedName.slice(colon + 1);
+  if (prefix !== undefined && namespace === null) {
+    throw new Error(
+        `Cannot set attribute ${qualifiedName} with a prefix but no namespace`);
+  }
+  const i = getAttributeIndexNS(element, namespace, localName);
+  if (i > -1) {
+    const oldAttribute = {...element.attrs[i]};
+    element.attrs[i].value = value;
+    recordAttributeChange(element, i, oldAttribute);
+    return;
+  }
+  const attr: Attribute = {name: localName, value: value};
+  if (prefix !== undefined) {
+    attr.prefix = prefix;
+  }
+  if (namespace !== null) {
+    attr.namespace = namespace;
+  }
+  element.attrs.push(attr);
+  recordAttributeChange(element, element.attrs.length - 1, undefined);
+}
+
+/**
+ * Removes the attribute with the given `namespace` and `localName`, if there
+ * is one.
+ *
+ * Equivalent to `element.removeAttributeNS(namespace, localName)` in the
+ * browser, so `removeAttributeNS(use, namespaces.xlink, 'href')` removes
+ * `xlink:href` whatever its prefix.
+ */
+export function removeAttributeNS(
+    element: Node, namespace: string|null, localName: string) {
+  const i = getAttributeIndexNS(element, namespace, localName);
+  if (i > -1) {
+    const [oldAttribute] = element.attrs.splice(i, 1);
+    recordAttributeChange(element, i, oldAttribute, false);
   }
 }
 
@@ -93,12 +236,21 @@ function collapseTextRange(parent: Node, start: number, end: number) {
   for (let i = start; i <= end; i++) {
     text += getTextContent(parent.childNodes[i]);
   }
-  parent.childNodes.splice(start, (end - start) + 1);
+  const removedNodes = parent.childNodes.splice(start, (end - start) + 1);
+  const addedNodes = [];
   if (text) {
     const tn = constructors.text(text);
     tn.parentNode = parent;
     parent.childNodes.splice(start, 0, tn);
+    addedNodes.push(tn);
   }
+  recordChange({
+    type: 'childList',
+    target: parent,
+    index: start,
+    removedNodes: removedNodes,
+    addedNodes: addedNodes,
+  });
 }
 
 /**
@@ -146,13 +298,35 @@ export function normalize(node: Node) {
  */
 export function setTextContent(node: Node, value: string) {
   if (isCommentNode(node)) {
+    const oldValue = node.data;
     node.data = value;
+    recordChange({
+      type: 'characterData',
+      target: node,
+      oldValue: oldValue,
+      newValue: value,
+    });
   } else if (isTextNode(node)) {
+    const oldValue = node.value;
     node.value = value;
+    recordChange({
+      type: 'characterData',
+      target: node,
+      oldValue: oldValue,
+      newValue: value,
+    });
   } else {
+    const removedNodes = node.childNodes || [];
     const tn = constructors.text(value);
     tn.parentNode = node;
     node.childNodes = [tn];
+    recordChange({
+      type: 'childList',
+      target: node,
+      index: 0,
+      removedNodes: removedNodes,
+      addedNodes: [tn],
+    });
   }
 }
 
@@ -170,3 +344,128 @@ export const childNodesIncludeTemplate = function childNodesIncludeTemplate(
 
   return node.childNodes;
 };
+
+/**
+ * Returns a map from each template content fragment under `root`, including
+ * those in nested templates, to its `<template>`.
+ *
+ * parse5 doesn't link template content back to its `<template>`, so the only
+ * way to find it is to search a tree that contains the `<template>`.
+ */
+export function getTemplateHosts(root: Node): Map<Node, Node> {
+  const hosts = new Map<Node, Node>();
+  const templates = nodeWalkAll(
+      root,
+      (node) => node.nodeName === 'template',
+      undefined,
+      childNodesIncludeTemplate);
+  for (const template of templates) {
+    hosts.set(treeAdapters.default.getTemplateContent(template), template);
+  }
+  return hosts;
+}
+
+/**
+ * Returns the `<template>` under `root` whose content is `fragment`, or
+ * `undefined` if there isn't one.
+ */
+export function getTemplateHost(fragment: Node, root: Node): Node|undefined {
+  return getTemplateHosts(root).get(fragment);
+}
+
+export type GetParentNode = ((node: Node) => Node | undefined);
+
+export const defaultParentNode = function defaultParentNode(node: Node) {
+  return node.parentNode;
+};
+
+/**
+ * Remembers the `<template>` of each template content fragment in the trees
+ * it learns, so that it can go up from template content without searching a
+ * root each time, as `parentNodeIncludingTemplates` does.
+ *
+ * Call `learn` with each tree whose templates should be remembered, including
+ * nodes as they are inserted into a tree that was learned already.
+ */
+export class TemplateHostTracker {
+  private readonly hosts = new WeakMap<Node, Node>();
+
+  /**
+   * Remembers the `<template>`s under `root`, including in template content.
+   */
+  learn(root: Node) {
+    for (const [content, template] of getTemplateHosts(root)) {
+      this.hosts.set(content, template);
+    }
+  }
+
+  /**
+   * Like `defaultParentNode`, but goes from the content fragment of a learned
+   * `<template>` to the `<template>`.
+   */
+  readonly getParentNode: GetParentNode = (node) =>
+      node.parentNode || this.hosts.get(node);
+}
+
+/**
+ * Returns a `GetParentNode` that is like `defaultParentNode`, but goes from
+ * the content fragment of each `<template>` under `root` to the `<template>`.
+ *
+ * `root` is only searched for `<template>`s when a parentless fragment is
+ * reached, and searched again if that fragment isn't found, so the function
+ * keeps working as the tree under `root` changes.
+ *
+ * This is the upward counterpart to `childNodesIncludeTemplate`.
+ */
+export function parentNodeIncludingTemplates(root: Node): GetParentNode {
+  let hosts: Map<Node, Node>|undefined;
+  return function(node) {
+    if (node.parentNode !== undefined || node === root ||
+        !isDocumentFragment(node)) {
+      return node.parentNode;
+    }
+    let host = hosts && hosts.get(node);
+    if (host === undefined ||
+        treeAdapters.default.getTemplateContent(host) !== node) {
+      hosts = getTemplateHosts(root);
+      host = hosts.get(node);
+    }
+    return host;
+  };
+}
+
+/**
+ * Wraps `getChildNodes` to remember the node that each child was reached
+ * from whenever that differs from the child's `parentNode`, and returns a
+ * matching `GetParentNode` that walks back up along the same path.
+ *
+ * For example, with `childNodesIncludeTemplate` the children of a
+ * `<template>`'s content lead back to the `<template>` rather than to its
+ * content fragment.
+ *
+ * A remembered parent is forgotten once the child's `parentNode` changes, so
+ * children that are moved lead back to where they are now.
+ */
+export function trackParentNodes(getChildNodes: GetChildNodes):
+    [GetChildNodes, GetParentNode] {
+  const parents = new WeakMap<Node, {parent: Node, parentNode?: Node}>();
+  const trackedChildNodes = function(node: Node) {
+    const childNodes = getChildNodes(node);
+    if (childNodes !== undefined) {
+      for (const child of childNodes) {
+        if (child.parentNode !== node) {
+          parents.set(child, {parent: node, parentNode: child.parentNode});
+        }
+      }
+    }
+    return childNodes;
+  };
+  const getParentNode = function(node: Node) {
+    const tracked = parents.get(node);
+    if (tracked !== undefined && tracked.parentNode === node.parentNode) {
+      return tracked.parent;
+    }
+    return node.parentNode;
+  };
+  return [trackedChildNodes, getParentNode];
+}
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTAttribute, ASTNode as Node, treeAdapters} from 'parse5';
+
+import {markTreeChanged} from './modification';
+import {NodePath, stringifyNodePath, TEMPLATE_CONTENT} from './position';
+import {isCommentNode, isDocumentFragment, isElement, isTextNode} from './predicates';
+import {namespaces} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * The kinds of problem that `validateTree` finds:
+ *
+ * - `wrong-parent`: the `parentNode` of a node is missing, or is not the node
+ *   whose `childNodes` it is in.
+ * - `multiple-parents`: a node is in the `childNodes` of more than one node,
+ *   or more than once in the same `childNodes`.
+ * - `cycle`: a node is in the `childNodes` of one of its own descendants.
+ * - `leaf-with-children`: a text, comment or doctype node has child nodes.
+ * - `missing-template-content`: a `<template>` has no content fragment.
+ * - `bad-namespace`: an element has no namespace or one that HTML elements
+ *   can't have, or an attribute has a namespace that HTML attributes can't
+ *   have.
+ */
+export type TreeProblemKind = 'wrong-parent' | 'multiple-parents' | 'cycle' |
+    'leaf-with-children' | 'missing-template-content' | 'bad-namespace';
+
+/**
+ * A problem with a tree, found by `validateTree`.
+ */
+export interface TreeProblem {
+  kind: TreeProblemKind;
+  node: Node;
+  /**
+   * The path to `node` from the root, following `childNodes` and template
+   * content (see `getNodePath`). Where a node is in the tree more than once,
+   * this is the place the problem was found.
+   */
+  path: NodePath;
+  /** A description of the problem, starting with the path. */
+  message: string;
+}
+
+/**
+ * Checks that the tree under `root`, including template content, is one that
+ * dom5 and parse5 can work with, and returns every problem found, in
+ * document order. An empty array means the tree is consistent.
+ *
+ * Only `childNodes` and template content are followed to find nodes, so
+ * `parentNode` references to nodes outside the tree are reported as
+ * `wrong-parent` problems, but nodes that can only be reached through
+ * `parentNode` are not checked.
+ */
+export function validateTree(root: Node): TreeProblem[] {
+  return findProblems(root).problems;
+}
+
+/**
+ * Fixes the problems with the tree under `root` that have only one possible
+ * fix: the `parentNode` of each node that is in the tree exactly once is set
+ * to the node whose `childNodes` it is in.
+ *
+ * Returns the problems that are left, as `validateTree` would.
+ */
+export function repairTree(root: Node): TreeProblem[] {
+  const {problems, parents, ambiguous} = findProblems(root);
+  const repaired = problems.filter(
+      (problem) =>
+          problem.kind === 'wrong-parent' && !ambiguous.has(problem.node));
+  if (repaired.length === 0) {
+    return problems;
+  }
+  for (const {node} of repaired) {
+    node.parentNode = parents.get(node);
+  }
+  markTreeChanged(root);
+  return validateTree(root);
+}
+
+const elementNamespaces =
+    new Set([namespaces.html, namespaces.svg, namespaces.mathml]);
+const attributeNamespaces =
+    new Set([namespaces.xlink, namespaces.xml, namespaces.xmlns]);
+
+interface Found {
+  problems: TreeProblem[];
+  /** For each node, the node whose `childNodes` it was first found in. */
+  parents: Map<Node, Node>;
+  /** The nodes found in more than one place, or in a cycle. */
+  ambiguous: Set<Node>;
+}
+
+/**
+ * Where a node was found: at `index` in the `childNodes` of the node of
+ * `parent`, or as its template content. Paths are only built from these when
+ * they are needed, so that deep trees don't copy a path for every node.
+ */
+interface Location {
+  node: Node;
+  parent?: Location;
+  index?: number|typeof TEMPLATE_CONTENT;
+}
+
+/**
+ * A location to visit, or one to leave once its descendants have been
+ * visited.
+ */
+interface Step {
+  location: Location;
+  leaving?: boolean;
+}
+
+function pathOf(location: Location): NodePath {
+  const path: NodePath = [];
+  for (let current = location; current.parent !== undefined;
+       current = current.parent) {
+    path.push(current.index!);
+  }
+  return path.reverse();
+}
+
+function findProblems(root: Node): Found {
+  const found: Found = {problems: [], parents: new Map(), ambiguous: new Set()};
+  const rootLocation: Location = {node: root};
+  const firstLocations = new Map<Node, Location>([[root, rootLocation]]);
+  const ancestors = new Set<Node>();
+
+  function report(
+      kind: TreeProblemKind,
+      node: Node,
+      location: Location,
+      description: string) {
+    const path = pathOf(location);
+    found.problems.push({
+      kind,
+      node,
+      path,
+      message: `${stringifyNodePath(path)}: ${description}`,
+    });
+  }
+
+  function firstPathTo(node: Node) {
+    return stringifyNodePath(pathOf(firstLocations.get(node)!));
+  }
+
+  /**
+   * Checks where the node at `location` was found, and returns whether to
+   * visit it: not if it has already been visited.
+   */
+  function checkPlacement(location: Location): boolean {
+    const child = location.node;
+    if (ancestors.has(child)) {
+      found.ambiguous.add(child);
+      report(
+          'cycle',
+          child,
+          location,
+          `node is its own ancestor, at ${firstPathTo(child)}`);
+      return false;
+    }
+    if (firstLocations.has(child)) {
+      found.ambiguous.add(child);
+      report(
+          'multiple-parents',
+          child,
+          location,
+          `node is also at ${firstPathTo(child)}`);
+      return false;
+    }
+    firstLocations.set(child, location);
+    if (typeof location.index === 'number') {
+      const parent = location.parent!.node;
+      found.parents.set(child, parent);
+      if (child.parentNode !== parent) {
+        report(
+            'wrong-parent',
+            child,
+            location,
+            child.parentNode === undefined ?
+                'parentNode is missing' :
+                'parentNode is not the node it is a child of');
+      }
+    }
+    return true;
+  }
+
+  function checkNode(location: Location) {
+    const node = location.node;
+    if ((isTextNode(node) || isCommentNode(node) ||
+         node.nodeName === '#documentType') &&
+        node.childNodes !== undefined && node.childNodes.length > 0) {
+      report(
+          'leaf-with-children',
+          node,
+          location,
+          `${node.nodeName} node has child nodes`);
+    }
+    if (!isElement(node)) {
+      return;
+    }
+    const tag = `<${node.tagName}>`;
+    if (!elementNamespaces.has(node.namespaceURI)) {
+      const namespace = JSON.stringify(node.namespaceURI);
+      report(
+          'bad-namespace', node, location, `${tag} has namespace ${namespace}`);
+    }
+    const attrs =
+        (node.attrs || []) as Array<ASTAttribute&{namespace?: string}>;
+    for (const attr of attrs) {
+      if (attr.namespace !== undefined &&
+          !attributeNamespaces.has(attr.namespace)) {
+        const namespace = JSON.stringify(attr.namespace);
+        report(
+            'bad-namespace',
+            node,
+            location,
+            `attribute ${attr.name} of ${tag} has namespace ${namespace}`);
+      }
+    }
+  }
+
+  // Nodes are visited depth first, in document order, with template content
+  // before the template's children as in `getNodePath`. `ancestors` holds the
+  // nodes that are being visited, which are left once their descendants have
+  // been visited.
+  const stack: Step[] = [{location: rootLocation}];
+  while (stack.length > 0) {
+    const {location, leaving} = stack.pop()!;
+    const node = location.node;
+    if (leaving) {
+      ancestors.delete(node);
+      continue;
+    }
+    if (location !== rootLocation && !checkPlacement(location)) {
+      continue;
+    }
+    ancestors.add(node);
+    checkNode(location);
+    stack.push({location, leaving: true});
+    const childNodes = node.childNodes || [];
+    for (let i = childNodes.length - 1; i >= 0; i--) {
+      stack.push({location: {node: childNodes[i], parent: location, index: i}});
+    }
+    if (isTemplate(node)) {
+      const content = treeAdapters.default.getTemplateContent(node);
+      if (content === undefined || !isDocumentFragment(content)) {
+        report(
+            'missing-template-content',
+            node,
+            location,
+            'template has no content fragment');
+      } else {
+        stack.push({
+          location:
+              {node: content, parent: location, index: TEMPLATE_CONTENT}
+        });
+      }
+    }
+  }
+  return found;
+}
+
+function isTemplate(node: Node) {
+  return isElement(node) && node.tagName === 'template' &&
+      node.namespaceURI === namespaces.html;
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTNode as Node} from 'parse5';
+
+import {Cursor, moveCursorPast, moveCursorTo} from './cursor';
+import {defaultChildNodes, GetChildNodes} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * Return from `Visitor.enter` to skip the children of the node.
+ */
+export const SKIP = Symbol('SKIP');
+
+/**
+ * Return from `Visitor.enter` or `Visitor.leave` to end the walk.
+ */
+export const STOP = Symbol('STOP');
+
+export type VisitResult = typeof SKIP | typeof STOP | void;
+
+/**
+ * Callbacks for `visit`. `parent` is the node whose child nodes (as returned
+ * by `getChildNodes`) `node` was found in, or `undefined` for the root.
+ */
+export interface Visitor {
+  /**
+   * Called before the children of `node` are visited.
+   *
+   * Return `SKIP` to leave its children out, or `STOP` to end the walk.
+   */
+  enter?(node: Node, parent: Node|undefined): VisitResult;
+  /**
+   * Called once the children of `node` have been visited, or straight after
+   * `enter` if it returned `SKIP`.
+   *
+   * Return `STOP` to end the walk.
+   */
+  leave?(node: Node, parent: Node|undefined): VisitResult;
+}
+
+interface Frame extends Cursor {
+  parent: Node|undefined;
+}
+
+/**
+ * Walks the tree below `root` depth first, calling `visitor.enter` on each
+ * node before visiting its children and `visitor.leave` after.
+ *
+ * The callbacks can modify the tree. If one removes or replaces the node it
+ * was called with, the walk carries on with whatever is now in its place, so
+ * a replacement is visited in turn; take care not to replace that too. When
+ * this happens in `enter`, the old node's children aren't visited and `leave`
+ * isn't called for it. Nodes inserted before the current node are not
+ * visited.
+ *
+ * Returns `true` if the walk was ended by `STOP`.
+ */
+export function visit(
+    root: Node,
+    visitor: Visitor,
+    getChildNodes: GetChildNodes = defaultChildNodes): boolean {
+  const enterResult = visitor.enter && visitor.enter(root, undefined);
+  if (enterResult === STOP) {
+    return true;
+  }
+  if (enterResult === SKIP) {
+    return !!visitor.leave && visitor.leave(root, undefined) === STOP;
+  }
+  const stack: Frame[] = [{node: root, parent: undefined, index: 0}];
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const child = (getChildNodes(frame.node) || [])[frame.index];
+    if (child === undefined) {
+      stack.pop();
+      if (visitor.leave && visitor.leave(frame.node, frame.parent) === STOP) {
+        return true;
+      }
+      if (stack.length > 0) {
+        moveCursorPast(stack[stack.length - 1], frame.node, getChildNodes);
+      }
+      continue;
+    }
+    const result = visitor.enter && visitor.enter(child, frame.node);
+    if (result === STOP) {
+      return true;
+    }
+    if (!moveCursorTo(frame, child, getChildNodes)) {
+      // `child` was removed or replaced, so visit whatever took its place.
+      continue;
+    }
+    if (result === SKIP) {
+      if (visitor.leave && visitor.leave(child, frame.node) === STOP) {
+        return true;
+      }
+      moveCursorPast(frame, child, getChildNodes);
+      continue;
+    }
+    stack.push({node: child, parent: frame.node, index: 0});
+  }
+  return false;
+}
@@ -15,8 +15,8 @@
 import {ASTNode as Node} from 'parse5';
 
 import * as iteration from './iteration';
-import {isElement, Predicate, predicates as p} from './predicates';
-import {defaultChildNodes, GetChildNodes} from './util';
+import {Element, Predicate, TypeGuard} from './predicates';
+import {defaultChildNodes, defaultParentNode, GetChildNodes, GetParentNode} from './util';
 
 export {ASTNode as Node} from 'parse5';
 
@@ -80,18 +80,20 @@ export function nodeWalkAll(
  * Nodes are searched in reverse document order, starting from the sibling
  * prior to `node`.
  */
-export function nodeWalkPrior(node: Node, predicate: Predicate): Node|
-    undefined {
-  const result = find(iteration.prior(node), predicate);
+export function nodeWalkPrior(
+    node: Node,
+    predicate: Predicate,
+    getChildNodes: GetChildNodes = defaultChildNodes): Node|undefined {
+  const result = find(iteration.prior(node, getChildNodes), predicate);
   if (result === null) {
     return undefined;
   }
   return result;
 }
 
-function* iteratePriorIncludingNode(node: Node) {
+function* iteratePriorIncludingNode(node: Node, getChildNodes: GetChildNodes) {
   yield node;
-  yield* iteration.prior(node);
+  yield* iteration.prior(node, getChildNodes);
 }
 
 /**
@@ -101,18 +103,61 @@ function* iteratePriorIncludingNode(node: Node) {
  * Nodes are returned in reverse document order, starting from `node`.
  */
 export function nodeWalkAllPrior(
-    node: Node, predicate: Predicate, matches?: Node[]): Node[] {
-  return filter(iteratePriorIncludingNode(node), predicate, matches);
+    node: Node,
+    predicate: Predicate,
+    matches?: Node[],
+    getChildNodes: GetChildNodes = defaultChildNodes): Node[] {
+  return filter(
+      iteratePriorIncludingNode(node, getChildNodes), predicate, matches);
+}
+
+/**
+ * Equivalent to `nodeWalk`, but only returns nodes that come after `node` in
+ * the document, other than its descendants. See `following`.
+ *
+ * Nodes are searched in document order, starting from the sibling after
+ * `node`.
+ */
+export function nodeWalkNext(
+    node: Node,
+    predicate: Predicate,
+    getChildNodes: GetChildNodes = defaultChildNodes): Node|undefined {
+  const result = find(iteration.following(node, getChildNodes), predicate);
+  if (result === null) {
+    return undefined;
+  }
+  return result;
+}
+
+/**
+ * Equivalent to `nodeWalkAll`, but only returns nodes that come after `node`
+ * in the document, other than its descendants. See `following`.
+ *
+ * Nodes are returned in document order. Unlike `nodeWalkAllPrior`, `node`
+ * itself is not included.
+ */
+export function nodeWalkAllNext(
+    node: Node,
+    predicate: Predicate,
+    matches?: Node[],
+    getChildNodes: GetChildNodes = defaultChildNodes): Node[] {
+  return filter(iteration.following(node, getChildNodes), predicate, matches);
 }
 
 /**
  * Walk the tree up from the parent of `node`, to its grandparent and so on to
  * the root of the tree.  Return the first ancestor that matches the given
  * predicate.
+ *
+ * Each node's parent is found with `getParentNode`. Pass
+ * `parentNodeIncludingTemplates(root)` to walk out of template content to the
+ * `<template>`.
  */
-export function nodeWalkAncestors(node: Node, predicate: Predicate): Node|
-    undefined {
-  const result = find(iteration.ancestors(node), predicate);
+export function nodeWalkAncestors(
+    node: Node,
+    predicate: Predicate,
+    getParentNode: GetParentNode = defaultParentNode): Node|undefined {
+  const result = find(iteration.ancestors(node, getParentNode), predicate);
   if (result === null) {
     return undefined;
   }
@@ -122,22 +167,72 @@ export function nodeWalkAncestors(node: Node, predicate: Predicate): Node|
 /**
  * Equivalent to `nodeWalk`, but only matches elements
  */
+export function query<N extends Node>(
+    node: Node, predicate: TypeGuard<N>, getChildNodes?: GetChildNodes): N|null;
+export function query(
+    node: Node, predicate: Predicate, getChildNodes?: GetChildNodes): Node|null;
 export function query(
     node: Node,
     predicate: Predicate,
     getChildNodes: GetChildNodes = defaultChildNodes): Node|null {
-  const elementPredicate = p.AND(isElement, predicate);
-  return nodeWalk(node, elementPredicate, getChildNodes);
+  return iteration.query(node, predicate, getChildNodes);
 }
 
 /**
  * Equivalent to `nodeWalkAll`, but only matches elements
  */
+export function queryAll<N extends Node>(
+    node: Node,
+    predicate: TypeGuard<N>,
+    matches?: N[],
+    getChildNodes?: GetChildNodes): N[];
 export function queryAll(
     node: Node,
     predicate: Predicate,
     matches?: Node[],
+    getChildNodes?: GetChildNodes): Node[];
+export function queryAll(
+    node: Node,
+    predicate: Predicate,
+    matches: Node[] = [],
     getChildNodes: GetChildNodes = defaultChildNodes): Node[] {
-  const elementPredicate = p.AND(isElement, predicate);
-  return nodeWalkAll(node, elementPredicate, matches, getChildNodes);
+  for (const match of iteration.queryAll(node, predicate, getChildNodes)) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+/**
+ * Equivalent to `query`, but matches elements against a CSS `selector`.
+ */
+export function querySelector(
+    node: Node,
+    selector: string,
+    getChildNodes: GetChildNodes = defaultChildNodes): Element|null {
+  return iteration.querySelector(node, selector, getChildNodes);
+}
+
+/**
+ * Equivalent to `queryAll`, but matches elements against a CSS `selector`.
+ */
+export function querySelectorAll(
+    node: Node,
+    selector: string,
+    matches?: Element[],
+    getChildNodes?: GetChildNodes): Element[];
+export function querySelectorAll(
+    node: Node,
+    selector: string,
+    matches: Node[],
+    getChildNodes?: GetChildNodes): Node[];
+export function querySelectorAll(
+    node: Node,
+    selector: string,
+    matches: Node[] = [],
+    getChildNodes: GetChildNodes = defaultChildNodes): Node[] {
+  for (const match of iteration.querySelectorAll(
+           node, selector, getChildNodes)) {
+    matches.push(match);
+  }
+  return matches;
 }
@@ -0,0 +1,1305 @@
+/**
+ * @license
+ * Copyright (c) 2018 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ASTAttribute, ASTNode as Node} from 'parse5';
+
+import {depthFirst, depthFirstReversed} from './iteration';
+import {isCommentNode, isElement, isTextNode} from './predicates';
+import {defaultChildNodes, GetChildNodes, GetParentNode, namespaces, trackParentNodes} from './util';
+
+export {ASTNode as Node} from 'parse5';
+
+/**
+ * Evaluates the XPath 1.0 `expression` against `contextNode`, yielding the
+ * nodes it selects in document order.
+ *
+ * For example:
+ *
+ *     evaluateXPath(
+ *         `//dom-module[@id='x']/template//*[@on-tap]`,
+ *         document,
+ *         childNodesIncludeTemplate)
+ *
+ * Supported are location paths with all axes except `namespace`, their
+ * abbreviations, predicates (including positional ones like `[1]` and
+ * `[last()]`), filter expressions, the usual operators and the core function
+ * library apart from `id()`. Variables are not supported.
+ *
+ * The expression must select nodes, not attributes: use `//*[@href]` rather
+ * than `//@href`. Where possible nodes are found lazily, so breaking out of
+ * the loop early avoids searching the rest of the tree.
+ *
+ * `getChildNodes` is used for every downward step, and upward steps retrace
+ * them, so with `childNodesIncludeTemplate` both `template//a` and
+ * `//a/ancestor::template` cross template boundaries.
+ */
+export function evaluateXPath(
+    expression: string,
+    contextNode: Node,
+    getChildNodes: GetChildNodes = defaultChildNodes): IterableIterator<Node> {
+  const expr = new XPathParser(expression).parse();
+  if (!selectsNodes(expr)) {
+    throw new Error(`XPath expression "${expression}" does not select nodes`);
+  }
+  const [trackedChildNodes, getParentNode] = trackParentNodes(getChildNodes);
+  const env: Environment = {
+    getChildNodes: trackedChildNodes,
+    getParentNode,
+    positions: new Map(),
+    nextPosition: 0,
+  };
+  return selectNodes(expression, expr, {
+    node: contextNode,
+    position: 1,
+    size: 1,
+    env,
+  });
+}
+
+function* selectNodes(expression: string, expr: Expr, context: Context) {
+  const nodes = expr.type === 'path' ?
+      iteratePath(pathStart(expr, context), expr.steps, context.env) :
+      evaluateNodeSet(expr, context);
+  for (const node of nodes) {
+    if (isAttributeNode(node)) {
+      throw new Error(
+          `XPath expression "${expression}" selects attributes, ` +
+          `which are not parse5 nodes`);
+    }
+    yield node;
+  }
+}
+
+/******************************************************************************
+ * Syntax
+ *****************************************************************************/
+
+type Axis = 'ancestor'|'ancestor-or-self'|'attribute'|'child'|'descendant'|
+    'descendant-or-self'|'following'|'following-sibling'|'parent'|'preceding'|
+    'preceding-sibling'|'self';
+
+const axes: Axis[] = [
+  'ancestor',
+  'ancestor-or-self',
+  'attribute',
+  'child',
+  'descendant',
+  'descendant-or-self',
+  'following',
+  'following-sibling',
+  'parent',
+  'preceding',
+  'preceding-sibling',
+  'self',
+];
+
+/**
+ * Axes that yield nodes in document order. Together with a single context
+ * node, these let a step's results be yielded lazily without sorting.
+ */
+const forwardAxes: Axis[] = [
+  'attribute',
+  'child',
+  'descendant',
+  'descendant-or-self',
+  'following',
+  'following-sibling',
+  'self',
+];
+
+type NodeType = 'node'|'text'|'comment'|'processing-instruction';
+const nodeTypes: NodeType[] =
+    ['node', 'text', 'comment', 'processing-instruction'];
+
+type NodeTest = {
+  type: 'name',
+  name: string
+}|{type: NodeType};
+
+interface Step {
+  axis: Axis;
+  test: NodeTest;
+  predicates: StepPredicate[];
+}
+
+interface StepPredicate {
+  expr: Expr;
+  /**
+   * Whether the predicate depends on the node's position, in which case all
+   * of the candidates need to be known before it can be applied.
+   */
+  positional: boolean;
+}
+
+interface PathExpr {
+  type: 'path';
+  absolute: boolean;
+  steps: Step[];
+}
+
+interface FilterExpr {
+  type: 'filter';
+  primary: Expr;
+  predicates: StepPredicate[];
+  steps: Step[];
+}
+
+type Expr = PathExpr|FilterExpr|
+    {type: 'binary', operator: string, left: Expr, right: Expr}|
+    {type: 'negate', operand: Expr}|{type: 'literal', value: string | number}|
+    {type: 'call', name: string, args: Expr[]};
+
+interface Token {
+  type: 'name'|'number'|'literal'|'operator'|'punctuation';
+  value: string;
+}
+
+const tokenPattern = new RegExp(
+    [
+      // number
+      /(\d+(?:\.\d*)?|\.\d+)/.source,
+      // literal
+      /("[^"]*"|'[^']*')/.source,
+      // punctuation and operators, longest first
+      /(\.\.|::|\/\/|!=|<=|>=|[\/()\[\].@,|+\-=<>*$])/.source,
+      // name, optionally qualified, or `prefix:*`
+      /([A-Za-z_][\w.\-]*(?::(?:[A-Za-z_][\w.\-]*|\*))?)/.source,
+    ].join('|'),
+    'y');
+
+const operatorSymbols =
+    ['/', '//', '|', '+', '-', '=', '!=', '<', '<=', '>', '>='];
+const operatorNames = ['and', 'or', 'mod', 'div'];
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (true) {
+    while (/\s/.test(expression.charAt(index))) {
+      index++;
+    }
+    if (index >= expression.length) {
+      return tokens;
+    }
+    tokenPattern.lastIndex = index;
+    const match = tokenPattern.exec(expression);
+    if (match === null) {
+      throw new Error(
+          `Invalid XPath expression "${expression}": ` +
+          `unexpected "${expression.charAt(index)}" at index ${index}`);
+    }
+    index = tokenPattern.lastIndex;
+    const [, numeral, literal, symbol, name] = match;
+    if (numeral !== undefined) {
+      tokens.push({type: 'number', value: numeral});
+    } else if (literal !== undefined) {
+      tokens.push({type: 'literal', value: literal.slice(1, -1)});
+    } else if (symbol !== undefined && symbol !== '*') {
+      tokens.push({
+        type: operatorSymbols.indexOf(symbol) !== -1 ? 'operator' :
+                                                       'punctuation',
+        value: symbol,
+      });
+    } else {
+      // `*` and names like `div` are operators if they follow something that
+      // could end an expression, and name tests otherwise.
+      const value = symbol || name;
+      const isOperator =
+          (value === '*' || operatorNames.indexOf(value) !== -1) &&
+          followsOperand(tokens[tokens.length - 1]);
+      tokens.push({type: isOperator ? 'operator' : 'name', value});
+    }
+  }
+}
+
+function followsOperand(previous: Token|undefined) {
+  if (previous === undefined || previous.type === 'operator') {
+    return false;
+  }
+  return ['@', '::', '(', '[', ','].indexOf(previous.value) === -1;
+}
+
+class XPathParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly expression: string) {
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): Expr {
+    const expr = this.parseBinary(0);
+    if (this.index < this.tokens.length) {
+      throw this.error(`unexpected "${this.peek()!.value}"`);
+    }
+    return expr;
+  }
+
+  /**
+   * Parses binary operators by precedence, from `or` (level 0) down to `|`,
+   * with unary minus sitting between the multiplicative operators and `|`.
+   */
+  private parseBinary(level: number): Expr {
+    if (level === binaryOperators.length) {
+      return this.parseUnary();
+    }
+    let expr = this.parseBinary(level + 1);
+    while (this.atOperator(binaryOperators[level])) {
+      const operator = this.next().value;
+      expr = {
+        type: 'binary',
+        operator,
+        left: expr,
+        right: this.parseBinary(level + 1),
+      };
+    }
+    return expr;
+  }
+
+  private parseUnary(): Expr {
+    if (this.atOperator(['-'])) {
+      this.index++;
+      return {type: 'negate', operand: this.parseUnary()};
+    }
+    let expr = this.parsePathExpr();
+    while (this.atOperator(['|'])) {
+      this.index++;
+      expr = {
+        type: 'binary',
+        operator: '|',
+        left: expr,
+        right: this.parsePathExpr(),
+      };
+    }
+    return expr;
+  }
+
+  private parsePathExpr(): Expr {
+    if (this.atOperator(['/', '//']) || this.atStep()) {
+      return this.parseLocationPath();
+    }
+    const primary = this.parsePrimary();
+    const predicates = this.parsePredicates();
+    const steps: Step[] = [];
+    if (this.atOperator(['/', '//'])) {
+      this.parseRelativePath(steps);
+    }
+    if (predicates.length === 0 && steps.length === 0) {
+      return primary;
+    }
+    return {type: 'filter', primary, predicates, steps: optimize(steps)};
+  }
+
+  private parseLocationPath(): PathExpr {
+    const steps: Step[] = [];
+    let absolute = false;
+    if (this.atOperator(['/'])) {
+      this.index++;
+      absolute = true;
+      if (!this.atStep()) {
+        return {type: 'path', absolute, steps};
+      }
+      steps.push(this.parseStep());
+    } else if (this.atOperator(['//'])) {
+      // The leading `//` is handled like any other.
+      absolute = true;
+    } else {
+      steps.push(this.parseStep());
+    }
+    this.parseRelativePath(steps);
+    return {type: 'path', absolute, steps: optimize(steps)};
+  }
+
+  /**
+   * Parses any number of `/step` or `//step` into `steps`.
+   */
+  private parseRelativePath(steps: Step[]) {
+    while (this.atOperator(['/', '//'])) {
+      if (this.next().value === '//') {
+        steps.push(descendantOrSelfStep());
+      }
+      steps.push(this.parseStep());
+    }
+  }
+
+  private parseStep(): Step {
+    const token = this.peek();
+    if (token !== undefined && token.value === '.') {
+      this.index++;
+      return {axis: 'self', test: {type: 'node'}, predicates: []};
+    }
+    if (token !== undefined && token.value === '..') {
+      this.index++;
+      return {axis: 'parent', test: {type: 'node'}, predicates: []};
+    }
+    let axis: Axis = 'child';
+    if (token !== undefined && token.value === '@') {
+      this.index++;
+      axis = 'attribute';
+    } else if (this.peek(1) !== undefined && this.peek(1)!.value === '::') {
+      const name = this.next().value;
+      this.index++;
+      if (axes.indexOf(name as Axis) === -1) {
+        throw this.error(`unsupported axis "${name}"`);
+      }
+      axis = name as Axis;
+    }
+    const test = this.parseNodeTest();
+    return {axis, test, predicates: this.parsePredicates()};
+  }
+
+  private parseNodeTest(): NodeTest {
+    const token = this.next();
+    if (token.type !== 'name') {
+      throw this.error(`expected a node test but found "${token.value}"`);
+    }
+    if (this.peek() === undefined || this.peek()!.value !== '(') {
+      return {type: 'name', name: token.value};
+    }
+    if (nodeTypes.indexOf(token.value as NodeType) === -1) {
+      throw this.error(`unknown node type "${token.value}()"`);
+    }
+    this.index++;
+    if (token.value === 'processing-instruction' && this.peek() !== undefined &&
+        this.peek()!.type === 'literal') {
+      this.index++;
+    }
+    this.expect(')');
+    return {type: token.value as NodeType};
+  }
+
+  private parsePredicates(): StepPredicate[] {
+    const predicates: StepPredicate[] = [];
+    while (this.peek() !== undefined && this.peek()!.value === '[') {
+      this.index++;
+      const expr = this.parseBinary(0);
+      this.expect(']');
+      predicates.push({expr, positional: isPositional(expr)});
+    }
+    return predicates;
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.next();
+    if (token.type === 'literal') {
+      return {type: 'literal', value: token.value};
+    }
+    if (token.type === 'number') {
+      return {type: 'literal', value: parseFloat(token.value)};
+    }
+    if (token.value === '(') {
+      const expr = this.parseBinary(0);
+      this.expect(')');
+      return expr;
+    }
+    if (token.value === '$') {
+      throw this.error('variables are not supported');
+    }
+    if (token.type === 'name' && this.peek() !== undefined &&
+        this.peek()!.value === '(') {
+      return this.parseCall(token.value);
+    }
+    throw this.error(`unexpected "${token.value}"`);
+  }
+
+  private parseCall(name: string): Expr {
+    const arity = functions[name];
+    if (arity === undefined) {
+      throw this.error(`unknown function "${name}()"`);
+    }
+    this.expect('(');
+    const args: Expr[] = [];
+    if (this.peek() === undefined || this.peek()!.value !== ')') {
+      args.push(this.parseBinary(0));
+      while (this.peek() !== undefined && this.peek()!.value === ',') {
+        this.index++;
+        args.push(this.parseBinary(0));
+      }
+    }
+    this.expect(')');
+    if (args.length < arity.min || args.length > arity.max) {
+      throw this.error(
+          `${name}() expects ${arity.min}` +
+          (arity.max === arity.min ?
+               '' :
+               arity.max === Infinity ? ' or more' : ` to ${arity.max}`) +
+          ` arguments but got ${args.length}`);
+    }
+    return {type: 'call', name, args};
+  }
+
+  /**
+   * Whether the next tokens begin a location step rather than a filter
+   * expression like a function call.
+   */
+  private atStep(): boolean {
+    const token = this.peek();
+    if (token === undefined) {
+      return false;
+    }
+    if (token.value === '.' || token.value === '..' || token.value === '@') {
+      return true;
+    }
+    if (token.type !== 'name') {
+      return false;
+    }
+    const next = this.peek(1);
+    return next === undefined || next.value !== '(' ||
+        nodeTypes.indexOf(token.value as NodeType) !== -1;
+  }
+
+  private atOperator(operators: string[]): boolean {
+    const token = this.peek();
+    return token !== undefined && token.type === 'operator' &&
+        operators.indexOf(token.value) !== -1;
+  }
+
+  private expect(value: string) {
+    const token = this.peek();
+    if (token === undefined || token.value !== value) {
+      throw this.error(
+          token === undefined ?
+              `expected "${value}" but reached the end` :
+              `expected "${value}" but found "${token.value}"`);
+    }
+    this.index++;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (token === undefined) {
+      throw this.error('unexpected end of expression');
+    }
+    return token;
+  }
+
+  private peek(offset = 0): Token|undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private error(message: string): Error {
+    return new Error(
+        `Invalid XPath expression "${this.expression}": ${message}`);
+  }
+}
+
+const binaryOperators = [
+  ['or'],
+  ['and'],
+  ['=', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', 'div', 'mod'],
+];
+
+function descendantOrSelfStep(): Step {
+  return {axis: 'descendant-or-self', test: {type: 'node'}, predicates: []};
+}
+
+/**
+ * Rewrites `//name` from `descendant-or-self::node()/child::name` into the
+ * equivalent `descendant::name`, which can be evaluated lazily. This isn't
+ * possible if `name` has positional predicates, as in `//li[1]`.
+ */
+function optimize(steps: Step[]): Step[] {
+  const result: Step[] = [];
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const next = steps[i + 1];
+    if (step.axis === 'descendant-or-self' && step.test.type === 'node' &&
+        step.predicates.length === 0 && next !== undefined &&
+        next.axis === 'child' &&
+        !next.predicates.some((predicate) => predicate.positional)) {
+      result.push({...next, axis: 'descendant'});
+      i++;
+    } else {
+      result.push(step);
+    }
+  }
+  return result;
+}
+
+function isPositional(expr: Expr): boolean {
+  return mayBeNumber(expr) || usesContextPosition(expr);
+}
+
+function mayBeNumber(expr: Expr): boolean {
+  switch (expr.type) {
+    case 'literal':
+      return typeof expr.value === 'number';
+    case 'negate':
+      return true;
+    case 'binary':
+      return ['+', '-', '*', 'div', 'mod'].indexOf(expr.operator) !== -1;
+    case 'call':
+      return functions[expr.name].returnsNumber;
+    case 'filter':
+      return expr.predicates.length === 0 && expr.steps.length === 0 &&
+          mayBeNumber(expr.primary);
+    case 'path':
+      return false;
+  }
+}
+
+/**
+ * Whether `expr` calls `position()` or `last()` for its own context, rather
+ * than in a nested predicate.
+ */
+function usesContextPosition(expr: Expr): boolean {
+  switch (expr.type) {
+    case 'call':
+      return expr.name === 'position' || expr.name === 'last' ||
+          expr.args.some(usesContextPosition);
+    case 'binary':
+      return usesContextPosition(expr.left) || usesContextPosition(expr.right);
+    case 'negate':
+      return usesContextPosition(expr.operand);
+    case 'filter':
+      return usesContextPosition(expr.primary);
+    case 'literal':
+    case 'path':
+      return false;
+  }
+}
+
+function selectsNodes(expr: Expr): boolean {
+  switch (expr.type) {
+    case 'path':
+      return true;
+    case 'filter':
+      return selectsNodes(expr.primary);
+    case 'binary':
+      return expr.operator === '|';
+    default:
+      return false;
+  }
+}
+
+/******************************************************************************
+ * Evaluation
+ *****************************************************************************/
+
+/**
+ * XPath treats attributes as nodes, but parse5 doesn't. These wrap an
+ * attribute so that it can appear in node-sets.
+ */
+interface AttributeNode {
+  ownerElement: Node;
+  attribute: ASTAttribute&{namespace?: string};
+}
+
+type XPathNode = Node|AttributeNode;
+
+type Value = XPathNode[]|string|number|boolean;
+
+interface Environment {
+  getChildNodes: GetChildNodes;
+  getParentNode: GetParentNode;
+  /** Document order positions of the nodes of each tree seen so far. */
+  positions: Map<Node, number>;
+  nextPosition: number;
+}
+
+interface Context {
+  node: XPathNode;
+  position: number;
+  size: number;
+  env: Environment;
+}
+
+const attributeNodes = new WeakMap<ASTAttribute, AttributeNode>();
+
+function attributeNode(element: Node, attribute: ASTAttribute) {
+  let node = attributeNodes.get(attribute);
+  if (node === undefined || node.ownerElement !== element) {
+    node = {ownerElement: element, attribute};
+    attributeNodes.set(attribute, node);
+  }
+  return node;
+}
+
+function isAttributeNode(node: XPathNode): node is AttributeNode {
+  return (node as AttributeNode).ownerElement !== undefined;
+}
+
+function evaluate(expr: Expr, context: Context): Value {
+  switch (expr.type) {
+    case 'literal':
+      return expr.value;
+    case 'negate':
+      return -toNumber(evaluate(expr.operand, context), context.env);
+    case 'call':
+      return callFunction(
+          expr.name, expr.args.map((arg) => evaluate(arg, context)), context);
+    case 'path':
+    case 'filter':
+      return evaluateNodeSet(expr, context);
+    case 'binary':
+      return evaluateBinary(expr.operator, expr.left, expr.right, context);
+  }
+}
+
+function evaluateNodeSet(expr: Expr, context: Context): XPathNode[] {
+  if (expr.type === 'path') {
+    return Array.from(
+        iteratePath(pathStart(expr, context), expr.steps, context.env));
+  }
+  const value = evaluate(expr.type === 'filter' ? expr.primary : expr, context);
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected a node-set but got ${typeof value} ${value}`);
+  }
+  if (expr.type !== 'filter') {
+    return value;
+  }
+  let nodes = value;
+  for (const predicate of expr.predicates) {
+    nodes = Array.from(applyPredicate(nodes, predicate, context.env));
+  }
+  return Array.from(iteratePath(nodes, expr.steps, context.env));
+}
+
+function evaluateBinary(
+    operator: string, left: Expr, right: Expr, context: Context): Value {
+  switch (operator) {
+    case 'or':
+      return toBoolean(evaluate(left, context)) ||
+          toBoolean(evaluate(right, context));
+    case 'and':
+      return toBoolean(evaluate(left, context)) &&
+          toBoolean(evaluate(right, context));
+    case '|':
+      return sortInDocumentOrder(
+          evaluateNodeSet(left, context)
+              .concat(evaluateNodeSet(right, context)),
+          context.env);
+  }
+  const leftValue = evaluate(left, context);
+  const rightValue = evaluate(right, context);
+  switch (operator) {
+    case '+':
+      return toNumber(leftValue, context.env) +
+          toNumber(rightValue, context.env);
+    case '-':
+      return toNumber(leftValue, context.env) -
+          toNumber(rightValue, context.env);
+    case '*':
+      return toNumber(leftValue, context.env) *
+          toNumber(rightValue, context.env);
+    case 'div':
+      return toNumber(leftValue, context.env) /
+          toNumber(rightValue, context.env);
+    case 'mod':
+      return toNumber(leftValue, context.env) %
+          toNumber(rightValue, context.env);
+    default:
+      return compare(operator, leftValue, rightValue, context.env);
+  }
+}
+
+/**
+ * Compares two values following XPath's rules, where comparisons with a
+ * node-set are true if they hold for any node in it.
+ */
+function compare(
+    operator: string, left: Value, right: Value, env: Environment): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    const rightStrings = right.map((r) => stringValue(r, env));
+    return left.some(
+        (l) => rightStrings.some(
+            (r) => compareScalars(operator, stringValue(l, env), r)));
+  }
+  if (Array.isArray(left)) {
+    if (typeof right === 'boolean') {
+      return compareScalars(operator, toBoolean(left), right);
+    }
+    // Both being node-sets was handled above.
+    const other = right as string | number;
+    return left.some(
+        (l) => compareScalars(operator, nodeAs(l, other, env), other));
+  }
+  if (Array.isArray(right)) {
+    if (typeof left === 'boolean') {
+      return compareScalars(operator, left, toBoolean(right));
+    }
+    const other = left;
+    return right.some(
+        (r) => compareScalars(operator, other, nodeAs(r, other, env)));
+  }
+  return compareScalars(operator, left, right);
+}
+
+/**
+ * Converts the node to the same type as `other` for comparison with it.
+ */
+function nodeAs(
+    node: XPathNode, other: string|number, env: Environment): string|number {
+  const value = stringValue(node, env);
+  return typeof other === 'number' ? scalarToNumber(value) : value;
+}
+
+function compareScalars(
+    operator: string,
+    left: string|number|boolean,
+    right: string|number|boolean): boolean {
+  if (operator === '=' || operator === '!=') {
+    let equal;
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+      equal = toBoolean(left) === toBoolean(right);
+    } else if (typeof left === 'number' || typeof right === 'number') {
+      equal = scalarToNumber(left) === scalarToNumber(right);
+    } else {
+      equal = left === right;
+    }
+    return operator === '=' ? equal : !equal;
+  }
+  const l = scalarToNumber(left);
+  const r = scalarToNumber(right);
+  switch (operator) {
+    case '<':
+      return l < r;
+    case '<=':
+      return l <= r;
+    case '>':
+      return l > r;
+    default:
+      return l >= r;
+  }
+}
+
+function pathStart(expr: PathExpr, context: Context): XPathNode[] {
+  if (!expr.absolute) {
+    return [context.node];
+  }
+  let root =
+      isAttributeNode(context.node) ? context.node.ownerElement : context.node;
+  let parent;
+  while ((parent = context.env.getParentNode(root)) !== undefined) {
+    root = parent;
+  }
+  return [root];
+}
+
+/**
+ * Applies each of `steps` in turn to `nodes`, yielding the final node-set in
+ * document order.
+ *
+ * When the last step starts from a single node and moves forward through the
+ * document its results are yielded as they're found, otherwise they are
+ * collected and sorted first.
+ */
+function*
+    iteratePath(nodes: XPathNode[], steps: Step[], env: Environment):
+        IterableIterator<XPathNode> {
+  if (steps.length === 0) {
+    yield* nodes;
+    return;
+  }
+  for (const step of steps.slice(0, -1)) {
+    nodes = applyStepToAll(nodes, step, env);
+  }
+  const last = steps[steps.length - 1];
+  if (nodes.length === 1 && forwardAxes.indexOf(last.axis) !== -1) {
+    yield* applyStep(nodes[0], last, env);
+  } else {
+    yield* applyStepToAll(nodes, last, env);
+  }
+}
+
+function applyStepToAll(nodes: XPathNode[], step: Step, env: Environment) {
+  const results: XPathNode[] = [];
+  for (const node of nodes) {
+    for (const result of applyStep(node, step, env)) {
+      results.push(result);
+    }
+  }
+  if (nodes.length === 1 && forwardAxes.indexOf(step.axis) !== -1) {
+    return results;
+  }
+  return sortInDocumentOrder(results, env);
+}
+
+function applyStep(
+    node: XPathNode, step: Step, env: Environment): Iterable<XPathNode> {
+  let results: Iterable<XPathNode> = filter(
+      axis(node, step.axis, env),
+      (candidate) => matchesNodeTest(candidate, step.test, step.axis));
+  for (const predicate of step.predicates) {
+    results = applyPredicate(results, predicate, env);
+  }
+  return results;
+}
+
+function applyPredicate(
+    nodes: Iterable<XPathNode>, predicate: StepPredicate, env: Environment):
+    Iterable<XPathNode> {
+  if (!predicate.positional) {
+    return filter(
+        nodes,
+        (node) => toBoolean(
+            evaluate(predicate.expr, {node, position: 0, size: 0, env})));
+  }
+  const candidates = Array.from(nodes);
+  return candidates.filter((node, i) => {
+    const position = i + 1;
+    const value = evaluate(
+        predicate.expr, {node, position, size: candidates.length, env});
+    return typeof value === 'number' ? value === position : toBoolean(value);
+  });
+}
+
+function* filter<U>(iterable: Iterable<U>, predicate: (u: U) => boolean) {
+  for (const value of iterable) {
+    if (predicate(value)) {
+      yield value;
+    }
+  }
+}
+
+/**
+ * Yields the nodes along `axisName` from `node`, in document order for
+ * forward axes and reverse document order for the others.
+ */
+function*
+    axis(node: XPathNode, axisName: Axis, env: Environment):
+        IterableIterator<XPathNode> {
+  if (isAttributeNode(node)) {
+    const owner = node.ownerElement;
+    switch (axisName) {
+      case 'self':
+        yield node;
+        break;
+      case 'parent':
+        yield owner;
+        break;
+      case 'ancestor-or-self':
+        yield node;
+        yield* axis(owner, 'ancestor-or-self', env);
+        break;
+      case 'ancestor':
+        yield* axis(owner, 'ancestor-or-self', env);
+        break;
+      case 'following':
+        yield* axis(owner, 'descendant', env);
+        yield* axis(owner, 'following', env);
+        break;
+      case 'preceding':
+        yield* axis(owner, 'preceding', env);
+        break;
+    }
+    return;
+  }
+  switch (axisName) {
+    case 'self':
+      yield node;
+      break;
+    case 'child':
+      yield* env.getChildNodes(node) || [];
+      break;
+    case 'descendant':
+      for (const child of env.getChildNodes(node) || []) {
+        yield* depthFirst(child, env.getChildNodes);
+      }
+      break;
+    case 'descendant-or-self':
+      yield* depthFirst(node, env.getChildNodes);
+      break;
+    case 'parent':
+      const parent = env.getParentNode(node);
+      if (parent !== undefined) {
+        yield parent;
+      }
+      break;
+    case 'ancestor-or-self':
+      yield node;
+      yield* axis(node, 'ancestor', env);
+      break;
+    case 'ancestor':
+      for (let ancestor = env.getParentNode(node); ancestor !== undefined;
+           ancestor = env.getParentNode(ancestor)) {
+        yield ancestor;
+      }
+      break;
+    case 'following-sibling':
+      yield* siblings(node, 1, env);
+      break;
+    case 'preceding-sibling':
+      yield* siblings(node, -1, env);
+      break;
+    case 'following':
+      for (let current: Node|undefined = node; current !== undefined;
+           current = env.getParentNode(current)) {
+        for (const sibling of siblings(current, 1, env)) {
+          yield* depthFirst(sibling, env.getChildNodes);
+        }
+      }
+      break;
+    case 'preceding':
+      for (let current: Node|undefined = node; current !== undefined;
+           current = env.getParentNode(current)) {
+        for (const sibling of siblings(current, -1, env)) {
+          yield* depthFirstReversed(sibling, env.getChildNodes);
+        }
+      }
+      break;
+    case 'attribute':
+      if (isElement(node)) {
+        for (const attribute of node.attrs) {
+          yield attributeNode(node, attribute);
+        }
+      }
+      break;
+  }
+}
+
+function* siblings(node: Node, direction: 1 | -1, env: Environment) {
+  const parent = env.getParentNode(node);
+  const childNodes = parent && env.getChildNodes(parent);
+  if (childNodes === undefined) {
+    return;
+  }
+  const index = childNodes.indexOf(node);
+  if (index === -1) {
+    return;
+  }
+  for (let i = index + direction; i >= 0 && i < childNodes.length;
+       i += direction) {
+    yield childNodes[i];
+  }
+}
+
+function matchesNodeTest(node: XPathNode, test: NodeTest, axis: Axis) {
+  switch (test.type) {
+    case 'node':
+      return true;
+    case 'text':
+      return !isAttributeNode(node) && isTextNode(node);
+    case 'comment':
+      return !isAttributeNode(node) && isCommentNode(node);
+    case 'processing-instruction':
+      return false;
+    case 'name':
+      // The principal node type of the attribute axis is attributes, and
+      // elements for every other axis.
+      if (axis === 'attribute') {
+        return isAttributeNode(node) &&
+            matchesName(qualifiedName(node.attribute), test.name, true);
+      }
+      return !isAttributeNode(node) && isElement(node) &&
+          matchesName(
+              node.tagName,
+              test.name,
+              (node.namespaceURI || namespaces.html) === namespaces.html);
+  }
+}
+
+/**
+ * Matches `name` against a name test, which may be `*` or `prefix:*`.
+ */
+function matchesName(name: string, test: string, caseInsensitive: boolean) {
+  if (test === '*') {
+    return true;
+  }
+  if (test.endsWith(':*')) {
+    return name.startsWith(test.slice(0, -1));
+  }
+  return caseInsensitive ? name.toLowerCase() === test.toLowerCase() :
+                           name === test;
+}
+
+function qualifiedName(attribute: ASTAttribute) {
+  return attribute.prefix ? `${attribute.prefix}:${attribute.name}` :
+                            attribute.name;
+}
+
+/**
+ * Sorts `nodes` into document order, removing duplicates.
+ */
+function sortInDocumentOrder(nodes: XPathNode[], env: Environment) {
+  const unique = Array.from(new Set(nodes));
+  if (unique.length < 2) {
+    return unique;
+  }
+  const keys = new Map(unique.map(
+      (node): [XPathNode, number] => [node, documentPosition(node, env)]));
+  return unique.sort((a, b) => keys.get(a)! - keys.get(b)!);
+}
+
+/**
+ * Returns a number that orders `node` relative to the other nodes of its tree.
+ * Attributes come after their element and before its children.
+ */
+function documentPosition(node: XPathNode, env: Environment): number {
+  if (isAttributeNode(node)) {
+    const owner = node.ownerElement;
+    const index = owner.attrs.indexOf(node.attribute);
+    return documentPosition(owner, env) +
+        (index + 1) / (owner.attrs.length + 1);
+  }
+  let position = env.positions.get(node);
+  if (position === undefined) {
+    let root = node;
+    let parent;
+    while ((parent = env.getParentNode(root)) !== undefined) {
+      root = parent;
+    }
+    for (const descendant of depthFirst(root, env.getChildNodes)) {
+      env.positions.set(descendant, env.nextPosition++);
+    }
+    position = env.positions.get(node);
+    if (position === undefined) {
+      // The tree is inconsistent, so there is no meaningful order.
+      position = env.nextPosition++;
+      env.positions.set(node, position);
+    }
+  }
+  return position;
+}
+
+/******************************************************************************
+ * Conversions and functions
+ *****************************************************************************/
+
+/**
+ * The text of `node`, which for elements and documents includes the text of
+ * every descendant that `env.getChildNodes` reaches.
+ */
+function stringValue(node: XPathNode, env: Environment): string {
+  if (isAttributeNode(node)) {
+    return node.attribute.value;
+  }
+  if (isTextNode(node)) {
+    return node.value || '';
+  }
+  if (isCommentNode(node)) {
+    return node.data || '';
+  }
+  let text = '';
+  for (const descendant of depthFirst(node, env.getChildNodes)) {
+    if (isTextNode(descendant)) {
+      text += descendant.value || '';
+    }
+  }
+  return text;
+}
+
+function toBoolean(value: Value): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'number') {
+    return value !== 0 && !isNaN(value);
+  }
+  if (typeof value === 'string') {
+    return value.length > 0;
+  }
+  return value;
+}
+
+function toNumber(value: Value, env: Environment): number {
+  return scalarToNumber(Array.isArray(value) ? toString(value, env) : value);
+}
+
+function scalarToNumber(value: string|number|boolean): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  return /^\s*-?(\d+(\.\d*)?|\.\d+)\s*$/.test(value) ? parseFloat(value) : NaN;
+}
+
+function toString(value: Value, env: Environment): string {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '' : stringValue(value[0], env);
+  }
+  if (typeof value === 'number') {
+    if (value === 0) {
+      return '0';
+    }
+    return isFinite(value) || isNaN(value) ?
+        String(value) :
+        value > 0 ? 'Infinity' : '-Infinity';
+  }
+  return String(value);
+}
+
+function toNodeSet(value: Value, name: string): XPathNode[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name}() expects a node-set but got ${typeof value}`);
+  }
+  return value;
+}
+
+function normalizeSpace(text: string) {
+  return text.replace(/[ \t\r\n]+/g, ' ').trim();
+}
+
+interface FunctionDefinition {
+  min: number;
+  max: number;
+  returnsNumber: boolean;
+}
+
+const functions: {[name: string]: FunctionDefinition} = {};
+
+function define(
+    names: string[], min: number, max: number, returnsNumber = false) {
+  for (const name of names) {
+    functions[name] = {min, max, returnsNumber};
+  }
+}
+
+define(['last', 'position'], 0, 0, true);
+define(['count', 'sum'], 1, 1, true);
+define(['string-length', 'number'], 0, 1, true);
+define(['floor', 'ceiling', 'round'], 1, 1, true);
+define(
+    ['local-name', 'name', 'namespace-uri', 'string', 'normalize-space'], 0, 1);
+define(['concat'], 2, Infinity);
+define(
+    ['starts-with', 'contains', 'substring-before', 'substring-after'], 2, 2);
+define(['substring'], 2, 3);
+define(['translate'], 3, 3);
+define(['boolean', 'not', 'lang'], 1, 1);
+define(['true', 'false'], 0, 0);
+
+function callFunction(name: string, args: Value[], context: Context): Value {
+  const contextValue = [context.node];
+  const arg = (i: number) => args.length > i ? args[i] : contextValue;
+  const str = (i: number) => toString(arg(i), context.env);
+  switch (name) {
+    case 'last':
+      return context.size;
+    case 'position':
+      return context.position;
+    case 'count':
+      return toNodeSet(args[0], name).length;
+    case 'sum':
+      return toNodeSet(args[0], name)
+          .reduce(
+              (sum, node) =>
+                  sum + scalarToNumber(stringValue(node, context.env)),
+              0);
+    case 'local-name':
+    case 'name':
+    case 'namespace-uri':
+      const node = toNodeSet(arg(0), name)[0];
+      if (node === undefined) {
+        return '';
+      }
+      if (isAttributeNode(node)) {
+        if (name === 'namespace-uri') {
+          return node.attribute.namespace || '';
+        }
+        return name === 'name' ? qualifiedName(node.attribute) :
+                                 node.attribute.name;
+      }
+      if (!isElement(node)) {
+        return '';
+      }
+      return name === 'namespace-uri' ? node.namespaceURI || '' : node.tagName;
+    case 'string':
+      return str(0);
+    case 'concat':
+      return args.map((value) => toString(value, context.env)).join('');
+    case 'starts-with':
+      return str(0).startsWith(str(1));
+    case 'contains':
+      return str(0).indexOf(str(1)) !== -1;
+    case 'substring-before': {
+      const text = str(0);
+      const index = text.indexOf(str(1));
+      return index === -1 ? '' : text.slice(0, index);
+    }
+    case 'substring-after': {
+      const text = str(0);
+      const search = str(1);
+      const index = text.indexOf(search);
+      return index === -1 ? '' : text.slice(index + search.length);
+    }
+    case 'substring': {
+      const text = str(0);
+      const start = Math.round(toNumber(args[1], context.env));
+      const end = args.length > 2 ?
+          start + Math.round(toNumber(args[2], context.env)) :
+          Infinity;
+      let result = '';
+      for (let i = 0; i < text.length; i++) {
+        if (i + 1 >= start && i + 1 < end) {
+          result += text[i];
+        }
+      }
+      return result;
+    }
+    case 'string-length':
+      return str(0).length;
+    case 'normalize-space':
+      return normalizeSpace(str(0));
+    case 'translate': {
+      const from = str(1);
+      const to = str(2);
+      let result = '';
+      for (const char of str(0)) {
+        const index = from.indexOf(char);
+        if (index === -1) {
+          result += char;
+        } else if (index < to.length) {
+          result += to[index];
+        }
+      }
+      return result;
+    }
+    case 'boolean':
+      return toBoolean(args[0]);
+    case 'not':
+      return !toBoolean(args[0]);
+    case 'true':
+      return true;
+    case 'false':
+      return false;
+    case 'lang': {
+      const lang = str(0).toLowerCase();
+      for (const ancestor of axis(
+               context.node, 'ancestor-or-self', context.env)) {
+        if (!isAttributeNode(ancestor) && isElement(ancestor)) {
+          const value = ancestorLang(ancestor);
+          if (value !== null) {
+            const actual = value.toLowerCase();
+            return actual === lang || actual.startsWith(lang + '-');
+          }
+        }
+      }
+      return false;
+    }
+    case 'number':
+      return toNumber(arg(0), context.env);
+    case 'floor':
+      return Math.floor(toNumber(args[0], context.env));
+    case 'ceiling':
+      return Math.ceil(toNumber(args[0], context.env));
+    default:
+      return Math.round(toNumber(args[0], context.env));
+  }
+}
+
+function ancestorLang(element: Node): string|null {
+  for (const attr of element.attrs) {
+    if (qualifiedName(attr).toLowerCase() === 'xml:lang' ||
+        (attr.name.toLowerCase() === 'lang' && !attr.prefix)) {
+      return attr.value;
+    }
+  }
+  return null;
+}